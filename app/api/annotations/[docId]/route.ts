@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DOC_ID_PATTERN,
+  MAX_ANNOTATIONS_BYTES,
+  isDocumentAnnotations,
+} from "@/lib/annotations";
+import {
+  VersionMismatchError,
+  readAnnotations,
+  removeAnnotations,
+  writeAnnotations,
+} from "@/lib/annotation-store";
+
+interface RouteContext {
+  params: { docId: string };
+}
+
+const jsonError = (message: string, status: number, extra?: object) =>
+  NextResponse.json({ error: message, ...extra }, { status });
+
+// Versions are exchanged as strong ETags, e.g. If-Match: "3"
+const parseIfMatch = (request: NextRequest) => {
+  const header = request.headers.get("if-match");
+  if (!header) return null;
+  const version = Number(header.replace(/^W\//, "").replace(/"/g, ""));
+  return Number.isInteger(version) && version >= 0 ? version : NaN;
+};
+
+// Returns the version the client expects to replace, or an error response
+const validateWrite = (request: NextRequest, docId: string) => {
+  if (!DOC_ID_PATTERN.test(docId)) {
+    return jsonError("Invalid document id", 400);
+  }
+  const expectedVersion = parseIfMatch(request);
+  if (expectedVersion === null) {
+    return jsonError("Missing If-Match header", 428);
+  }
+  if (Number.isNaN(expectedVersion)) {
+    return jsonError("Invalid If-Match header", 400);
+  }
+  return expectedVersion;
+};
+
+const conflict = (error: VersionMismatchError) =>
+  NextResponse.json(
+    { error: error.message, version: error.currentVersion },
+    {
+      status: 412,
+      headers: { ETag: `"${error.currentVersion}"` },
+    }
+  );
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { docId } = params;
+  if (!DOC_ID_PATTERN.test(docId)) {
+    return jsonError("Invalid document id", 400);
+  }
+
+  try {
+    const stored = await readAnnotations(docId);
+    return NextResponse.json(stored, {
+      headers: {
+        ETag: `"${stored.version}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading annotations:", error);
+    return jsonError("Failed to read annotations", 500);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { docId } = params;
+  const expectedVersion = validateWrite(request, docId);
+  if (expectedVersion instanceof NextResponse) return expectedVersion;
+
+  const tooLarge = () =>
+    jsonError("Annotations are too large to save", 413, {
+      maxBytes: MAX_ANNOTATIONS_BYTES,
+    });
+  // The declared length saves reading a body that is refused anyway
+  if (Number(request.headers.get("content-length")) > MAX_ANNOTATIONS_BYTES) {
+    return tooLarge();
+  }
+  const text = await request.text();
+  if (Buffer.byteLength(text) > MAX_ANNOTATIONS_BYTES) return tooLarge();
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return jsonError("Request body must be JSON", 400);
+  }
+  if (!isDocumentAnnotations(body)) {
+    return jsonError("Request body is not a valid annotations document", 422);
+  }
+
+  try {
+    const stored = await writeAnnotations(docId, body, expectedVersion);
+    return NextResponse.json(stored, {
+      headers: { ETag: `"${stored.version}"` },
+    });
+  } catch (error) {
+    if (error instanceof VersionMismatchError) return conflict(error);
+    console.error("Error saving annotations:", error);
+    return jsonError("Failed to save annotations", 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { docId } = params;
+  const expectedVersion = validateWrite(request, docId);
+  if (expectedVersion instanceof NextResponse) return expectedVersion;
+
+  try {
+    await removeAnnotations(docId, expectedVersion);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof VersionMismatchError) return conflict(error);
+    console.error("Error deleting annotations:", error);
+    return jsonError("Failed to delete annotations", 500);
+  }
+}
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,21 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+// Hashes a document URL for browsers without crypto.subtle, which only
+// exists on secure origins. Gives the same id documentIdFor does there.
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get("url");
+  if (!url) {
+    return NextResponse.json(
+      { error: "Missing url parameter" },
+      { status: 400 }
+    );
+  }
+  const docId = createHash("sha256").update(url).digest("hex");
+  return NextResponse.json(
+    { docId },
+    { headers: { "Cache-Control": "public, max-age=31536000, immutable" } }
+  );
+}
+
+export const dynamic = "force-dynamic";
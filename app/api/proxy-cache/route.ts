@@ -0,0 +1,80 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ProxyError, parseUpstreamUrl } from "@/lib/pdf-proxy";
+import {
+  MAX_CACHE_BYTES,
+  findEntry,
+  listEntries,
+  purgeCache,
+  removeEntry,
+} from "@/lib/proxy-cache";
+
+// Admin access needs a token; without one configured the endpoint is off
+const ADMIN_TOKEN = process.env.PROXY_CACHE_ADMIN_TOKEN;
+
+const jsonError = (message: string, status: number) =>
+  NextResponse.json({ error: message }, { status });
+
+// Compared in constant time, so response times don't give the token away
+const isAdminToken = (header: string | null) => {
+  const given = Buffer.from(header ?? "");
+  const expected = Buffer.from(`Bearer ${ADMIN_TOKEN}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const checkAccess = (request: NextRequest) => {
+  if (!ADMIN_TOKEN) {
+    return jsonError("The cache admin endpoint is disabled", 403);
+  }
+  if (!isAdminToken(request.headers.get("authorization"))) {
+    return jsonError("Missing or invalid admin token", 401);
+  }
+  return null;
+};
+
+export async function GET(request: NextRequest) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  try {
+    const entries = await listEntries();
+    return NextResponse.json(
+      {
+        totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+        maxSize: MAX_CACHE_BYTES,
+        entries,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error reading the proxy cache:", error);
+    return jsonError("Failed to read the cache", 500);
+  }
+}
+
+// Purges the entry for ?url=, or every entry without it
+export async function DELETE(request: NextRequest) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  const url = request.nextUrl.searchParams.get("url");
+  try {
+    if (!url) {
+      const purged = await purgeCache();
+      return NextResponse.json({ purged });
+    }
+    // Entries are keyed by the URL as the proxy route reads it
+    const entry = await findEntry(parseUpstreamUrl(url).href);
+    if (!entry) return jsonError("No cache entry for this URL", 404);
+    await removeEntry(entry.key);
+    return NextResponse.json({ purged: 1 });
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      return jsonError(error.message, error.status);
+    }
+    console.error("Error purging the proxy cache:", error);
+    return jsonError("Failed to purge the cache", 500);
+  }
+}
+
+export const dynamic = "force-dynamic";
@@ -1,46 +1,112 @@
 import { NextResponse } from "next/server";
+import {
+  DOCUMENT_HEADERS,
+  ProxyError,
+  checkUpstreamHost,
+  openUpstream,
+  parseUpstreamUrl,
+  responseHeaders,
+  streamUpstreamBody,
+} from "@/lib/pdf-proxy";
+import {
+  byteRange,
+  cacheDocument,
+  cacheWhileStreaming,
+  entryEtag,
+  lookupDocument,
+  readCachedBody,
+  responseEtag,
+  touchEntry,
+} from "@/lib/proxy-cache";
 
-export async function GET(request) {
-  const { searchParams } = new URL(request.url);
-  const url = searchParams.get("url");
+// pdf.js asks for one range at a time; multipart responses aren't supported
+const RANGE_PATTERN = /^bytes=\d*-\d*$/;
 
-  if (!url) {
-    return new NextResponse("Missing URL parameter", { status: 400 });
-  }
+const jsonError = (error) =>
+  NextResponse.json(
+    { error: error.message, code: error.code, ...error.details },
+    { status: error.status }
+  );
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        Accept: "application/pdf",
+const notModified = (etag) =>
+  new NextResponse(null, {
+    status: 304,
+    headers: { ETag: etag, "Cache-Control": DOCUMENT_HEADERS["Cache-Control"] },
+  });
+
+async function cachedResponse(entry, range, ifNoneMatch) {
+  await touchEntry(entry);
+  const etag = entryEtag(entry);
+  if (ifNoneMatch === etag) return notModified(etag);
+
+  const headers = { ...DOCUMENT_HEADERS, ETag: etag, "Accept-Ranges": "bytes" };
+  const bytes = byteRange(range, entry.size);
+  if (bytes === "unsatisfiable") {
+    return NextResponse.json(
+      {
+        error: "The requested range is outside the document",
+        code: "range_not_satisfiable",
       },
+      { status: 416, headers: { "Content-Range": `bytes */${entry.size}` } }
+    );
+  }
+  if (!bytes) {
+    return new NextResponse(readCachedBody(entry), {
+      headers: { ...headers, "Content-Length": String(entry.size) },
     });
+  }
+  return new NextResponse(readCachedBody(entry, bytes), {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Length": String(bytes.end - bytes.start + 1),
+      "Content-Range": `bytes ${bytes.start}-${bytes.end}/${entry.size}`,
+    },
+  });
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+export async function GET(request) {
+  const { searchParams } = new URL(request.url);
+  const range = request.headers.get("range");
+  const ifNoneMatch = request.headers.get("if-none-match");
 
-    const contentType = response.headers.get("content-type");
-    if (!contentType || !contentType.includes("application/pdf")) {
-      console.warn("Response is not a PDF:", contentType);
+  try {
+    const url = parseUpstreamUrl(searchParams.get("url"));
+    // Narrowing the allowlist also stops cached documents from its hosts
+    await checkUpstreamHost(url);
+    const headers = { Accept: "application/pdf" };
+    if (range && RANGE_PATTERN.test(range)) headers.Range = range;
+    const cached = await lookupDocument(url, headers);
+    if (cached.entry) {
+      return await cachedResponse(cached.entry, range, ifNoneMatch);
     }
+    const response = cached.response ?? (await openUpstream(url, headers));
 
-    const pdfBuffer = await response.arrayBuffer();
-
-    return new NextResponse(pdfBuffer, {
-      headers: {
-        "Content-Type": "application/pdf",
-        "Content-Disposition": 'inline; filename="document.pdf"',
-        "Cache-Control": "public, max-age=3600",
-      },
+    const etag = responseEtag(url.href, response);
+    if (etag && ifNoneMatch === etag) {
+      response.destroy();
+      cacheDocument(url);
+      return notModified(etag);
+    }
+    let body = await streamUpstreamBody(url, response);
+    // The whole document is cached as it streams to the browser; for a range
+    // the cache downloads the document itself
+    if (response.statusCode === 200) {
+      body = cacheWhileStreaming(url, response, body);
+    } else {
+      cacheDocument(url);
+    }
+    return new NextResponse(body, {
+      status: response.statusCode,
+      headers: { ...responseHeaders(response), ...(etag && { ETag: etag }) },
     });
   } catch (error) {
+    if (error instanceof ProxyError) return jsonError(error);
     console.error("Error fetching PDF:", error);
-    return new NextResponse(JSON.stringify({ error: "Failed to fetch PDF" }), {
-      status: 500,
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
+    return NextResponse.json(
+      { error: "Failed to fetch PDF", code: "internal_error" },
+      { status: 500 }
+    );
   }
 }
 
@@ -2,12 +2,40 @@
 
 import { DocumentViewerModal } from "@/components/document-viewer-modal";
 import { Button } from "@/components/ui/button";
-import { useState } from "react";
+import {
+  DocumentView,
+  formatViewParams,
+  parseViewParams,
+} from "@/lib/view-params";
+import { useEffect, useState } from "react";
+
+// Replaces the URL hash without adding history entries or scrolling
+const replaceHash = (hash: string) => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, "", `${pathname}${search}${hash}`);
+};
 
 export default function TestViewer() {
   const [isOpen, setIsOpen] = useState(false);
+  const [initialView, setInitialView] = useState<DocumentView>();
+
+  // A link with view parameters, in the hash or the query, opens the viewer
+  // at that view
+  useEffect(() => {
+    const view =
+      parseViewParams(window.location.hash) ??
+      parseViewParams(window.location.search);
+    if (view) {
+      setInitialView(view);
+      setIsOpen(true);
+    }
+  }, []);
 
-  const onClose = () => setIsOpen(false);
+  const onClose = () => {
+    setIsOpen(false);
+    setInitialView(undefined);
+    replaceHash("");
+  };
 
   return (
     <div className="container mx-auto p-8">
@@ -18,6 +46,8 @@ export default function TestViewer() {
         isOpen={isOpen}
         onClose={onClose}
         fileUrl="https://conasems-ava-prod.s3.sa-east-1.amazonaws.com/aulas/ava/dummy-1641923583.pdf"
+        initialView={initialView}
+        onViewChange={(view) => replaceHash(`#${formatViewParams(view)}`)}
       />
     </div>
   );
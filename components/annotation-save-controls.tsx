@@ -0,0 +1,91 @@
+import React from "react";
+import { Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToolbarButton } from "@/components/toolbar-button";
+
+interface AnnotationSaveControlsProps {
+  isLoaded: boolean;
+  isDirty: boolean;
+  isSaving: boolean;
+  error: string | null;
+  // Set when someone else saved since this copy was loaded
+  hasConflict: boolean;
+  onSave: () => void;
+  onOverwrite: () => void;
+  onReload: () => void;
+}
+
+export function AnnotationSaveControls({
+  isLoaded,
+  isDirty,
+  isSaving,
+  error,
+  hasConflict,
+  onSave,
+  onOverwrite,
+  onReload,
+}: AnnotationSaveControlsProps) {
+  const label = isDirty ? "Save comments (unsaved changes)" : "Save comments";
+
+  const reload = () => {
+    if (
+      isDirty &&
+      !window.confirm(
+        "Reloading discards your unsaved comments and measurements. Reload anyway?"
+      )
+    ) {
+      return;
+    }
+    onReload();
+  };
+
+  return (
+    <div className="flex items-center space-x-1">
+      <ToolbarButton
+        label={label}
+        className="relative"
+        onClick={onSave}
+        disabled={!isLoaded || isSaving}
+      >
+        {isSaving ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Save className="h-4 w-4" />
+        )}
+        {isDirty && (
+          <span className="absolute top-1.5 right-1.5 h-2 w-2 rounded-full bg-cyan-500" />
+        )}
+      </ToolbarButton>
+      {error && (
+        <span
+          className="text-xs text-red-500 max-w-56 truncate"
+          title={error}
+          role="alert"
+        >
+          {error}
+        </span>
+      )}
+      {hasConflict && (
+        <>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={onOverwrite}
+            disabled={isSaving}
+          >
+            Overwrite
+          </Button>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={reload}
+          >
+            Reload
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from "react";
+import {
+  CircleCheckBig,
+  FileText,
+  MessageSquare,
+  Ruler,
+  Search,
+} from "lucide-react";
+import {
+  AnnotationEntry,
+  AnnotationEntryType,
+  AnnotationFilters,
+  DEFAULT_FILTERS,
+  filterEntries,
+} from "@/lib/annotation-index";
+import { cn } from "@/lib/utils";
+
+interface AnnotationsPanelProps {
+  entries: AnnotationEntry[];
+  isLoadingEmbedded: boolean;
+  onSelect: (entry: AnnotationEntry) => void;
+}
+
+const TYPE_LABELS: Record<AnnotationEntryType, string> = {
+  comment: "Comments",
+  measurement: "Measurements",
+  embedded: "PDF annotations",
+};
+
+const TYPE_ICONS: Record<AnnotationEntryType, typeof Ruler> = {
+  comment: MessageSquare,
+  measurement: Ruler,
+  embedded: FileText,
+};
+
+const selectClassName = "h-8 w-full rounded-md border bg-white px-1 text-xs";
+
+export function AnnotationsPanel({
+  entries,
+  isLoadingEmbedded,
+  onSelect,
+}: AnnotationsPanelProps) {
+  const [filters, setFilters] = useState<AnnotationFilters>(DEFAULT_FILTERS);
+
+  const authors = useMemo(
+    () =>
+      Array.from(
+        new Set(entries.flatMap((e) => (e.author ? [e.author] : [])))
+      ).sort(),
+    [entries]
+  );
+  const pages = useMemo(
+    () =>
+      Array.from(new Set(entries.map((e) => e.pageNumber))).sort(
+        (a, b) => a - b
+      ),
+    [entries]
+  );
+  const visibleEntries = useMemo(
+    () => filterEntries(entries, filters),
+    [entries, filters]
+  );
+
+  const updateFilter = <K extends keyof AnnotationFilters>(
+    key: K,
+    value: AnnotationFilters[K]
+  ) => setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="space-y-2 border-b p-3">
+        <div className="relative">
+          <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => updateFilter("query", e.target.value)}
+            placeholder="Search annotations"
+            aria-label="Search annotations"
+            className="h-8 w-full rounded-md border pl-8 pr-2 text-sm"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={filters.type}
+            onChange={(e) =>
+              updateFilter("type", e.target.value as AnnotationFilters["type"])
+            }
+            aria-label="Filter by type"
+            className={selectClassName}
+          >
+            <option value="all">All types</option>
+            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.status}
+            onChange={(e) =>
+              updateFilter(
+                "status",
+                e.target.value as AnnotationFilters["status"]
+              )
+            }
+            aria-label="Filter by status"
+            className={selectClassName}
+          >
+            <option value="all">Any status</option>
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+          </select>
+          <select
+            value={filters.author}
+            onChange={(e) => updateFilter("author", e.target.value)}
+            aria-label="Filter by author"
+            className={selectClassName}
+          >
+            <option value="all">All authors</option>
+            {authors.map((author) => (
+              <option key={author} value={author}>
+                {author}
+              </option>
+            ))}
+          </select>
+          <select
+            value={String(filters.pageNumber)}
+            onChange={(e) =>
+              updateFilter(
+                "pageNumber",
+                e.target.value === "all" ? "all" : Number(e.target.value)
+              )
+            }
+            aria-label="Filter by page"
+            className={selectClassName}
+          >
+            <option value="all">All pages</option>
+            {pages.map((page) => (
+              <option key={page} value={page}>
+                Page {page}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {visibleEntries.length} of {entries.length} annotations
+          {isLoadingEmbedded && " · reading PDF annotations…"}
+        </p>
+      </div>
+      {visibleEntries.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">
+          {entries.length === 0
+            ? "This document has no annotations yet."
+            : "No annotations match these filters."}
+        </p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto py-1">
+          {visibleEntries.map((entry, index) => {
+            const Icon = TYPE_ICONS[entry.type];
+            const startsPage =
+              index === 0 ||
+              visibleEntries[index - 1].pageNumber !== entry.pageNumber;
+            return (
+              <li key={`${entry.type}:${entry.id}`}>
+                {startsPage && (
+                  <div className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+                    Page {entry.pageNumber}
+                  </div>
+                )}
+                <button
+                  type="button"
+                  className="flex w-full items-start gap-2 px-3 py-1.5 text-left hover:bg-gray-100"
+                  onClick={() => onSelect(entry)}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-cyan-600" />
+                  <span className="min-w-0 flex-1">
+                    <span className="flex items-center gap-1 text-sm font-medium">
+                      <span className="truncate">{entry.title}</span>
+                      {entry.resolved && (
+                        <CircleCheckBig
+                          className="h-3 w-3 shrink-0 text-green-600"
+                          aria-label="Resolved"
+                        />
+                      )}
+                    </span>
+                    {entry.text && (
+                      <span
+                        className={cn(
+                          "block text-xs text-muted-foreground line-clamp-2",
+                          entry.resolved && "line-through"
+                        )}
+                      >
+                        {entry.text}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
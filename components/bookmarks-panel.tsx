@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Bookmark } from "@/lib/bookmarks";
+
+interface BookmarksPanelProps {
+  bookmarks: Bookmark[];
+  // Converts a bookmark's absolute scale to the percentage shown in the toolbar
+  formatZoom: (scale: number) => string;
+  onSelect: (bookmark: Bookmark) => void;
+  onRename: (id: string, label: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+}
+
+interface BookmarkItemProps {
+  bookmark: Bookmark;
+  subtitle: string;
+  isFirst: boolean;
+  isLast: boolean;
+  onSelect: () => void;
+  onRename: (label: string) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function BookmarkItem({
+  bookmark,
+  subtitle,
+  isFirst,
+  isLast,
+  onSelect,
+  onRename,
+  onMove,
+  onRemove,
+}: BookmarkItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [label, setLabel] = useState(bookmark.label);
+
+  const commitRename = () => {
+    if (label.trim()) onRename(label.trim());
+    setIsEditing(false);
+  };
+
+  return (
+    <li className="group flex items-center gap-1 px-2 py-1 hover:bg-gray-100">
+      {isEditing ? (
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") {
+              e.stopPropagation();
+              setLabel(bookmark.label);
+              setIsEditing(false);
+            }
+          }}
+          autoFocus
+          aria-label="Bookmark name"
+          className="h-7 flex-1 rounded-md border px-2 text-sm"
+        />
+      ) : (
+        <button
+          type="button"
+          className="min-w-0 flex-1 py-1 text-left"
+          onClick={onSelect}
+        >
+          <span className="block truncate text-sm">{bookmark.label}</span>
+          <span className="block text-xs text-muted-foreground">
+            {subtitle}
+          </span>
+        </button>
+      )}
+      <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => {
+            setLabel(bookmark.label);
+            setIsEditing(true);
+          }}
+          aria-label="Rename bookmark"
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onMove(-1)}
+          disabled={isFirst}
+          aria-label="Move bookmark up"
+        >
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onMove(1)}
+          disabled={isLast}
+          aria-label="Move bookmark down"
+        >
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onRemove}
+          aria-label="Delete bookmark"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+export function BookmarksPanel({
+  bookmarks,
+  formatZoom,
+  onSelect,
+  onRename,
+  onMove,
+  onRemove,
+}: BookmarksPanelProps) {
+  if (bookmarks.length === 0) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        No bookmarks yet. Bookmark the current view to come back to it later.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="py-2">
+      {bookmarks.map((bookmark, index) => (
+        <BookmarkItem
+          key={bookmark.id}
+          bookmark={bookmark}
+          subtitle={`Page ${bookmark.pageNumber} · ${formatZoom(
+            bookmark.scale
+          )}`}
+          isFirst={index === 0}
+          isLast={index === bookmarks.length - 1}
+          onSelect={() => onSelect(bookmark)}
+          onRename={(label) => onRename(bookmark.id, label)}
+          onMove={(offset) => onMove(bookmark.id, offset)}
+          onRemove={() => onRemove(bookmark.id)}
+        />
+      ))}
+    </ul>
+  );
+}
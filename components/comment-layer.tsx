@@ -0,0 +1,92 @@
+import React from "react";
+import { MessageSquare } from "lucide-react";
+import { CommentThreadPopover } from "@/components/comment-thread-popover";
+import { CommentThread } from "@/lib/comments";
+import { PageSize } from "@/lib/measurement";
+import { cn } from "@/lib/utils";
+
+interface CommentLayerProps {
+  pageSize: PageSize;
+  scale: number;
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  currentUser: string;
+  onSelectThread: (threadId: string | null) => void;
+  onAddMessage: (threadId: string, body: string) => void;
+  onEditMessage: (threadId: string, messageId: string, body: string) => void;
+  onDeleteMessage: (threadId: string, messageId: string) => void;
+  onResolvedChange: (threadId: string, resolved: boolean) => void;
+}
+
+export function CommentLayer({
+  pageSize,
+  scale,
+  threads,
+  activeThreadId,
+  currentUser,
+  onSelectThread,
+  onAddMessage,
+  onEditMessage,
+  onDeleteMessage,
+  onResolvedChange,
+}: CommentLayerProps) {
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {threads.map((thread, index) => {
+        const isActive = thread.id === activeThreadId;
+        return (
+          <div
+            key={thread.id}
+            className={cn("absolute", isActive ? "z-20" : "z-10")}
+            style={{
+              left: `${(thread.position.x / pageSize.width) * 100}%`,
+              top: `${(thread.position.y / pageSize.height) * 100}%`,
+              // Counter the viewer zoom so pins and popovers keep their size
+              transform: `scale(${1 / scale})`,
+              transformOrigin: "0 0",
+            }}
+          >
+            <button
+              type="button"
+              className={cn(
+                "pointer-events-auto absolute -translate-x-1/2 -translate-y-full flex h-7 w-7 items-center justify-center rounded-full rounded-bl-none border-2 border-white shadow-md text-white text-xs font-semibold",
+                thread.resolved ? "bg-gray-400" : "bg-cyan-500",
+                isActive && "ring-2 ring-cyan-700"
+              )}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onSelectThread(isActive ? null : thread.id)}
+              aria-label={`Comment ${index + 1}${
+                thread.resolved ? " (resolved)" : ""
+              }`}
+            >
+              {thread.messages.length > 1 ? (
+                thread.messages.length
+              ) : (
+                <MessageSquare className="h-3 w-3" />
+              )}
+            </button>
+            {isActive && (
+              <div className="pointer-events-auto absolute left-5 -top-7">
+                <CommentThreadPopover
+                  thread={thread}
+                  currentUser={currentUser}
+                  onAddMessage={(body) => onAddMessage(thread.id, body)}
+                  onEditMessage={(messageId, body) =>
+                    onEditMessage(thread.id, messageId, body)
+                  }
+                  onDeleteMessage={(messageId) =>
+                    onDeleteMessage(thread.id, messageId)
+                  }
+                  onResolvedChange={(resolved) =>
+                    onResolvedChange(thread.id, resolved)
+                  }
+                  onClose={() => onSelectThread(null)}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import { Check, Pencil, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CommentMessage, CommentThread, formatTimestamp } from "@/lib/comments";
+import { cn } from "@/lib/utils";
+
+interface CommentThreadPopoverProps {
+  thread: CommentThread;
+  currentUser: string;
+  onAddMessage: (body: string) => void;
+  onEditMessage: (messageId: string, body: string) => void;
+  onDeleteMessage: (messageId: string) => void;
+  onResolvedChange: (resolved: boolean) => void;
+  onClose: () => void;
+}
+
+interface MessageItemProps {
+  message: CommentMessage;
+  canModify: boolean;
+  onEdit: (body: string) => void;
+  onDelete: () => void;
+}
+
+function MessageItem({
+  message,
+  canModify,
+  onEdit,
+  onDelete,
+}: MessageItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.body);
+
+  const handleSave = () => {
+    if (draft.trim()) {
+      onEdit(draft.trim());
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <li className="group space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <span className="font-medium">{message.author}</span>{" "}
+          <span className="text-xs text-muted-foreground">
+            {formatTimestamp(message.createdAt)}
+            {message.updatedAt && " (edited)"}
+          </span>
+        </div>
+        {canModify && !isEditing && (
+          <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => {
+                setDraft(message.body);
+                setIsEditing(true);
+              }}
+              aria-label="Edit comment"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={onDelete}
+              aria-label="Delete comment"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+      {isEditing ? (
+        <div className="space-y-1">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            autoFocus
+            rows={2}
+            className="w-full resize-none rounded-md border p-2"
+          />
+          <div className="flex justify-end gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!draft.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="whitespace-pre-wrap break-words">{message.body}</p>
+      )}
+    </li>
+  );
+}
+
+export function CommentThreadPopover({
+  thread,
+  currentUser,
+  onAddMessage,
+  onEditMessage,
+  onDeleteMessage,
+  onResolvedChange,
+  onClose,
+}: CommentThreadPopoverProps) {
+  const [reply, setReply] = useState("");
+  const isNew = thread.messages.length === 0;
+
+  const submitReply = () => {
+    if (reply.trim()) {
+      onAddMessage(reply.trim());
+      setReply("");
+    }
+  };
+
+  return (
+    <div
+      className="w-72 rounded-md border bg-white p-3 text-sm shadow-lg cursor-default"
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span
+          className={cn(
+            "text-xs font-medium",
+            thread.resolved ? "text-green-600" : "text-muted-foreground"
+          )}
+        >
+          {isNew ? "New comment" : thread.resolved ? "Resolved" : "Open"}
+        </span>
+        <div className="flex items-center">
+          {!isNew && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => onResolvedChange(!thread.resolved)}
+            >
+              {thread.resolved ? (
+                <>
+                  <RotateCcw className="h-3 w-3" /> Reopen
+                </>
+              ) : (
+                <>
+                  <Check className="h-3 w-3" /> Resolve
+                </>
+              )}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onClose}
+            aria-label="Close comment"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {!isNew && (
+        <ul className="mb-3 max-h-64 space-y-3 overflow-y-auto">
+          {thread.messages.map((message) => (
+            <MessageItem
+              key={message.id}
+              message={message}
+              canModify={message.author === currentUser}
+              onEdit={(body) => onEditMessage(message.id, body)}
+              onDelete={() => onDeleteMessage(message.id)}
+            />
+          ))}
+        </ul>
+      )}
+      {!thread.resolved && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitReply();
+          }}
+          className="space-y-2"
+        >
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                submitReply();
+              }
+            }}
+            autoFocus
+            rows={2}
+            placeholder={isNew ? "Add a comment" : "Reply"}
+            className="w-full resize-none rounded-md border p-2"
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={!reply.trim()}>
+              {isNew ? "Comment" : "Reply"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
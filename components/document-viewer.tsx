@@ -0,0 +1,1903 @@
+import React, {
+  forwardRef,
+  useState,
+  useEffect,
+  useRef,
+  useMemo,
+  useId,
+  useImperativeHandle,
+} from "react";
+import { Document, Page, PasswordResponses, pdfjs } from "react-pdf";
+import "react-pdf/dist/Page/TextLayer.css";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+import { Button } from "@/components/ui/button";
+import { BookmarkPlus } from "lucide-react";
+import { MeasurementLayer } from "@/components/measurement-layer";
+import { MeasurementToolbar } from "@/components/measurement-toolbar";
+import { CommentLayer } from "@/components/comment-layer";
+import { ViewerSidePanel } from "@/components/viewer-side-panel";
+import { OutlinePanel } from "@/components/outline-panel";
+import { BookmarksPanel } from "@/components/bookmarks-panel";
+import { AnnotationsPanel } from "@/components/annotations-panel";
+import { SearchBar } from "@/components/search-bar";
+import { SearchHighlightLayer } from "@/components/search-highlight-layer";
+import { ThumbnailRail } from "@/components/thumbnail-rail";
+import { PageStack } from "@/components/page-stack";
+import { HighResLayer } from "@/components/high-res-layer";
+import { KeyboardShortcutsPanel } from "@/components/keyboard-shortcuts-panel";
+import { ViewerToolbar } from "@/components/viewer-toolbar";
+import { AnnotationSaveControls } from "@/components/annotation-save-controls";
+import { RenderedPage } from "@/components/rendered-page";
+import { PasswordPrompt, PasswordReason } from "@/components/password-prompt";
+import { LoadErrorPanel } from "@/components/load-error-panel";
+import { LoadProgressBar } from "@/components/load-progress-bar";
+import { PrintDialog } from "@/components/print-dialog";
+import { imageRenderer } from "@/components/image-renderer";
+import { textRenderer } from "@/components/text-renderer";
+import { tiffRenderer } from "@/components/tiff-renderer";
+import { cn, createId, fileName } from "@/lib/utils";
+import {
+  MIN_POINTS,
+  Measurement,
+  MeasurementTool,
+  MeasurementUnit,
+  PageCalibration,
+  PagePoint,
+  PageSize,
+  createCalibration,
+  distanceBetween,
+} from "@/lib/measurement";
+import {
+  CommentThread,
+  addMessage,
+  createMessage,
+  createThread,
+  deleteMessage,
+  editMessage,
+  setThreadResolved,
+} from "@/lib/comments";
+import { DocumentAnnotations, EMPTY_ANNOTATIONS } from "@/lib/annotations";
+import { DestinationTarget } from "@/lib/pdf-outline";
+import { Bookmark } from "@/lib/bookmarks";
+import { SearchOptions, rectCenter } from "@/lib/pdf-search";
+import {
+  ViewMode,
+  mostVisiblePage,
+  pageAtOffset,
+  pageOrigin,
+  spreadPages,
+  spreadStart,
+  stackPages,
+} from "@/lib/page-layout";
+import { visibleRange } from "@/lib/virtualization";
+import {
+  PageGeometry,
+  Rotation,
+  fromDisplayPoint,
+  fromUserSpace,
+  pageSpaceSize,
+  rotateBy,
+  rotatedSize,
+  toDisplayPoint,
+  toDisplayRect,
+  toUserSpace,
+} from "@/lib/page-rotation";
+import {
+  AnnotationEntry,
+  commentEntries,
+  embeddedEntries,
+  measurementEntries,
+} from "@/lib/annotation-index";
+import { useSavedAnnotations } from "@/hooks/use-saved-annotations";
+import { useBookmarks } from "@/hooks/use-bookmarks";
+import { useEmbeddedAnnotations } from "@/hooks/use-embedded-annotations";
+import { useDocumentSearch } from "@/hooks/use-document-search";
+import { usePageSizes } from "@/hooks/use-page-sizes";
+import { useLoadedDocument } from "@/hooks/use-loaded-document";
+import { useSettledView } from "@/hooks/use-settled-view";
+import { usePageRotations } from "@/hooks/use-page-rotations";
+import { useViewerGestures } from "@/hooks/use-viewer-gestures";
+import { useDocumentExport } from "@/hooks/use-document-export";
+import { anchoredPan } from "@/lib/gestures";
+import { ShortcutAction, matchShortcut } from "@/lib/keyboard-shortcuts";
+import { FitMode, ZOOM_STEP, percentToScale, scaleToPercent } from "@/lib/zoom";
+import { DocumentView } from "@/lib/view-params";
+import {
+  DocumentRenderer,
+  LoadProgress,
+  pickRenderer,
+} from "@/lib/document-renderer";
+import { DocumentLoadError, toLoadError } from "@/lib/load-errors";
+import {
+  DocumentLoadInfo,
+  DocumentViewerHandle,
+  PointerMode,
+  SHORTCUT_FEATURES,
+  ToolbarFeature,
+  ToolbarOptions,
+  ZoomValue,
+  isFeatureShown,
+} from "@/lib/viewer-api";
+
+if (typeof window !== 'undefined') {
+  pdfjs.GlobalWorkerOptions.workerSrc = `/pdf.worker.min.js`;
+}
+
+export interface DocumentHeading {
+  title: string;
+  description: string;
+}
+
+export interface DocumentViewerProps {
+  fileUrl: string;
+  // Shown above the viewer; the PDF's own title or the file name by default
+  title?: string;
+  description?: string;
+  // Draws the title and description, e.g. as a dialog's heading; return
+  // null to leave them out
+  renderHeader?: (heading: DocumentHeading) => React.ReactNode;
+  className?: string;
+  // Author name recorded on comments
+  currentUser?: string;
+  // Key annotations are saved under; derived from fileUrl when omitted
+  documentId?: string;
+  // View to open at, such as one from a deep link
+  initialView?: DocumentView;
+  // Called whenever the view comes to rest or the page changes
+  onViewChange?: (view: DocumentView) => void;
+  // Content type of the file; without it the extension picks the renderer
+  mimeType?: string;
+  // Renderers for files other than PDFs, tried in order
+  renderers?: DocumentRenderer[];
+  // Password tried first on an encrypted PDF
+  password?: string;
+  // Asked for a password before the reader is; returning null shows the
+  // password form instead
+  onPasswordRequest?: (
+    reason: PasswordReason
+  ) => string | null | Promise<string | null>;
+  // Page and zoom to show. The viewer moves there whenever they change and
+  // reports where the reader goes, so hosts can keep them in sync.
+  page?: number;
+  zoom?: ZoomValue;
+  // Pointer mode, fully controlled when given
+  mode?: PointerMode;
+  onPageChange?: (pageNumber: number) => void;
+  onZoomChange?: (zoom: ZoomValue) => void;
+  onModeChange?: (mode: PointerMode) => void;
+  onLoad?: (info: DocumentLoadInfo) => void;
+  onError?: (error: DocumentLoadError) => void;
+  // Called with every change to the comments and measurements, including
+  // the saved set arriving
+  onAnnotationsChange?: (annotations: DocumentAnnotations) => void;
+  toolbar?: ToolbarOptions;
+}
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+type SidePanel = "outline" | "bookmarks" | "annotations" | "shortcuts";
+
+const SIDE_PANEL_TITLES: Record<SidePanel, string> = {
+  outline: "Table of Contents",
+  bookmarks: "Bookmarks",
+  annotations: "Annotations",
+  shortcuts: "Keyboard Shortcuts",
+};
+
+// A view change to apply once the given page has rendered
+interface PendingView {
+  pageNumber: number;
+  apply: (size: PageSize) => void;
+}
+
+const BASE_SCALE = 1.0; // Changed from 2.0 to 1.0
+const PADDING = 20; // Consistent padding value
+const MAX_SCALE = 5;
+const MIN_SCALE_FACTOR = 0.5;
+const PAGE_GAP = 16; // Space between pages in continuous mode, in points
+const PAGE_OVERSCAN = 1;
+const RENDER_SETTLE_MS = 200; // Pause before redrawing pages at the new zoom
+const KEYBOARD_SCROLL_STEP = 40;
+const DEFAULT_RENDERERS = [tiffRenderer, imageRenderer, textRenderer];
+const DEFAULT_DESCRIPTION = "View and navigate through the document";
+
+const defaultHeader = ({ title, description }: DocumentHeading) => (
+  <div className="space-y-1.5">
+    <h2 className="text-lg font-semibold leading-none tracking-tight">
+      {title}
+    </h2>
+    <p className="text-sm text-muted-foreground">{description}</p>
+  </div>
+);
+
+// PDFs load with range requests, fetching only what the shown pages need, so
+// the first page appears before the whole file has arrived. Servers without
+// range support still send the whole file.
+const DOCUMENT_OPTIONS = {
+  // The character maps have to match the pdf.js that react-pdf brings
+  cMapUrl: `https://unpkg.com/pdfjs-dist@${pdfjs.version}/cmaps/`,
+  cMapPacked: true,
+  withCredentials: false,
+  disableAutoFetch: true,
+  // Streaming would download the rest of the file alongside the ranges
+  disableStream: true,
+};
+
+export const DocumentViewer = forwardRef<
+  DocumentViewerHandle,
+  DocumentViewerProps
+>(function DocumentViewer(
+  {
+    fileUrl,
+    title,
+    description = DEFAULT_DESCRIPTION,
+    renderHeader = defaultHeader,
+    className,
+    currentUser = "Anonymous",
+    documentId,
+    initialView,
+    onViewChange,
+    mimeType,
+    renderers = DEFAULT_RENDERERS,
+    password,
+    onPasswordRequest,
+    page,
+    zoom,
+    mode,
+    onPageChange,
+    onZoomChange,
+    onModeChange,
+    onLoad,
+    onError,
+    onAnnotationsChange,
+    toolbar,
+  },
+  ref
+) {
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [numPages, setNumPages] = useState<number>(0);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1.0);
+  const [fitScale, setFitScale] = useState(1.0);
+  const [fitMode, setFitMode] = useState<FitMode | null>("page");
+  const [error, setError] = useState<DocumentLoadError | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [passwordReason, setPasswordReason] = useState<PasswordReason | null>(
+    null
+  );
+  const [isPrintDialogOpen, setIsPrintDialogOpen] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const panOffsetRef = useRef<Position>({ x: 0, y: 0 });
+  // The applied scale, which events can read before state catches up
+  const scaleRef = useRef(scale);
+  const pendingViewRef = useRef<PendingView | null>(null);
+  // pdf.js waits on this to retry with a password, reusing the loaded bytes
+  const passwordCallbackRef = useRef<((password: string) => void) | null>(null);
+  const hasTriedPasswordRef = useRef(false);
+  // Read by the resize observer, which outlives the render that created it
+  const pageNumberRef = useRef(pageNumber);
+  pageNumberRef.current = pageNumber;
+  const fitModeRef = useRef(fitMode);
+  fitModeRef.current = fitMode;
+  const openedUrlRef = useRef(fileUrl);
+  const initialViewRef = useRef(initialView);
+  initialViewRef.current = initialView;
+  const hasShownInitialViewRef = useRef(false);
+  // Set while a linked search term waits for its first match
+  const isSearchJumpPendingRef = useRef(false);
+  // Latest handlers, for effects that should only run when the view changes
+  const handleNextMatchRef = useRef<() => void>();
+  const reportViewRef = useRef<() => void>();
+  const showPageRef = useRef<() => void>();
+  const showZoomRef = useRef<() => void>();
+  const calculateFitScaleRef = useRef<() => void>();
+  const showViewRef = useRef<(view: DocumentView) => void>();
+  // Host callbacks, read by effects that shouldn't rerun when they change
+  const callbacksRef = useRef({
+    onPageChange,
+    onZoomChange,
+    onLoad,
+    onError,
+    onAnnotationsChange,
+  });
+  callbacksRef.current = {
+    onPageChange,
+    onZoomChange,
+    onLoad,
+    onError,
+    onAnnotationsChange,
+  };
+  // Last values reported, so hosts only hear about real changes
+  const reportedPageRef = useRef(1);
+  const reportedZoomRef = useRef<ZoomValue>("page");
+  const [uncontrolledMode, setUncontrolledMode] = useState<PointerMode>("drag");
+  const activeMode = mode ?? uncontrolledMode;
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  const [isThumbnailRailOpen, setIsThumbnailRailOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>("single");
+  // Page indexes rendered in continuous mode; null until the view is measured
+  const [renderedRange, setRenderedRange] = useState<[number, number] | null>(
+    null
+  );
+  const [pageSize, setPageSize] = useState<PageSize | null>(null);
+  const [measurementTool, setMeasurementTool] =
+    useState<MeasurementTool>("distance");
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [calibrations, setCalibrations] = useState<
+    Record<number, PageCalibration>
+  >({});
+  const [draftPoints, setDraftPoints] = useState<PagePoint[]>([]);
+  const [hoverPoint, setHoverPoint] = useState<PagePoint | null>(null);
+  const [pendingCalibration, setPendingCalibration] = useState<number | null>(
+    null
+  );
+  // Page the current draft is drawn on
+  const [draftPageNumber, setDraftPageNumber] = useState(1);
+  const [commentThreads, setCommentThreads] = useState<CommentThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({
+    caseSensitive: false,
+    wholeWord: false,
+  });
+  const [currentMatchIndex, setCurrentMatchIndex] = useState(-1);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const keyboardHintId = useId();
+
+  const annotations = useMemo<DocumentAnnotations>(
+    () => ({ measurements, calibrations, comments: commentThreads }),
+    [measurements, calibrations, commentThreads]
+  );
+  const reportedAnnotationsRef = useRef(annotations);
+
+  const isShown = (feature: ToolbarFeature) => isFeatureShown(toolbar, feature);
+
+  const changeMode = (next: PointerMode) => {
+    if (mode === undefined) setUncontrolledMode(next);
+    onModeChange?.(next);
+  };
+
+  const applyAnnotations = (loaded: DocumentAnnotations) => {
+    setMeasurements(loaded.measurements);
+    setCalibrations(loaded.calibrations);
+    setCommentThreads(loaded.comments);
+  };
+
+  const {
+    bookmarks,
+    addBookmark,
+    renameBookmark,
+    moveBookmark,
+    removeBookmark,
+  } = useBookmarks(fileUrl);
+
+  const renderer = useMemo(
+    () => pickRenderer(renderers, { url: fileUrl, mimeType }),
+    [renderers, fileUrl, mimeType]
+  );
+  // Cleared while an error shows, so retrying loads the file again
+  const loaded = useLoadedDocument(renderer, error ? null : fileUrl, mimeType);
+  const pdfPageSizes = usePageSizes(pdfDocument);
+  const [metadataTitle, setMetadataTitle] = useState<string | null>(null);
+  const defaultTitle = metadataTitle ?? (fileName(fileUrl) || "Document");
+  const loadedPageSizes = useMemo(
+    () =>
+      loaded.document?.pageSizes.map((size) => ({
+        ...size,
+        rotation: 0 as const,
+      })) ?? null,
+    [loaded.document]
+  );
+  const pageSizes = renderer ? loadedPageSizes : pdfPageSizes;
+  const { settledView, scheduleSettle } = useSettledView(RENDER_SETTLE_MS);
+  const { rotations, rotatePages } = usePageRotations(fileUrl);
+  const stackLayout = useMemo(
+    () =>
+      pageSizes &&
+      stackPages(
+        pageSizes.map((size, i) => rotatedSize(size, rotations[i + 1] ?? 0)),
+        PAGE_GAP
+      ),
+    [pageSizes, rotations]
+  );
+  const isContinuous = viewMode === "continuous";
+  // Pages shown side by side; pageNumber is always the first of them
+  const visiblePages = isContinuous
+    ? [pageNumber]
+    : spreadPages(viewMode, pageNumber, numPages);
+  const lastVisiblePage = visiblePages[visiblePages.length - 1];
+  const allPages = Array.from({ length: numPages }, (_, i) => i + 1);
+
+  const search = useDocumentSearch(
+    pdfDocument,
+    isSearchOpen ? searchQuery : "",
+    searchOptions
+  );
+  const currentMatch = search.matches[currentMatchIndex] ?? null;
+
+  const embeddedAnnotations = useEmbeddedAnnotations(
+    pdfDocument,
+    sidePanel === "annotations"
+  );
+
+  const annotationEntries = useMemo(
+    () => [
+      ...commentEntries(commentThreads),
+      ...measurementEntries(measurements, calibrations),
+      ...embeddedEntries(embeddedAnnotations.annotations),
+    ],
+    [
+      commentThreads,
+      measurements,
+      calibrations,
+      embeddedAnnotations.annotations,
+    ]
+  );
+
+  const savedAnnotations = useSavedAnnotations({
+    fileUrl,
+    documentId,
+    annotations,
+    onLoad: applyAnnotations,
+  });
+
+  // Applies the chosen fit mode, or keeps a typed-in zoom and only updates
+  // the fitted scale the zoom limits are based on
+  const calculateFitScale = () => {
+    const container = containerRef.current;
+    if (!container || isLoading) return;
+    // Continuous mode fits the widest page and the current page's height;
+    // otherwise pageRef wraps every page shown, so a spread fits as a whole
+    let box: PageSize;
+    let boxOrigin: Position;
+    if (isContinuous) {
+      if (!stackLayout) return;
+      const index = pageNumberRef.current - 1;
+      box = { width: stackLayout.width, height: stackLayout.sizes[index] ?? 0 };
+      boxOrigin = { x: 0, y: stackLayout.offsets[index] ?? 0 };
+    } else {
+      if (!pageRef.current) return;
+      box = {
+        width: pageRef.current.scrollWidth,
+        height: pageRef.current.scrollHeight,
+      };
+      // Where the centered page sits in the viewer before it is transformed
+      boxOrigin = {
+        x: pageRef.current.offsetLeft,
+        y: pageRef.current.offsetTop,
+      };
+    }
+
+    const containerWidth = container.clientWidth;
+    const containerHeight = container.clientHeight;
+    const widthScale = (containerWidth - PADDING * 2) / box.width;
+    const pageScale = Math.min(
+      widthScale,
+      (containerHeight - PADDING * 2) / box.height
+    );
+    // Continuous mode scrolls vertically, so its natural fit is the width
+    setFitScale(isContinuous ? widthScale : pageScale);
+
+    const mode = fitModeRef.current;
+    if (!mode) {
+      updateTransform(scaleRef.current);
+      return;
+    }
+    const newScale = mode === "width" ? widthScale : pageScale;
+    setScale(newScale);
+
+    // Centered horizontally; vertically centered when it fits, or from the
+    // top of the page when it doesn't
+    const x = (containerWidth - box.width * newScale) / 2;
+    const y = isContinuous
+      ? PADDING
+      : Math.max(PADDING, (containerHeight - box.height * newScale) / 2);
+    panOffsetRef.current = {
+      x: x - boxOrigin.x * newScale,
+      y: y - boxOrigin.y * newScale,
+    };
+
+    updateTransform(newScale);
+  };
+  calculateFitScaleRef.current = calculateFitScale;
+
+  const fitTo = (mode: FitMode) => {
+    fitModeRef.current = mode;
+    setFitMode(mode);
+    calculateFitScale();
+  };
+
+  // Any zoom other than a fit preset stays put when the viewer resizes
+  const setManualScale = (value: number) => {
+    fitModeRef.current = null;
+    setFitMode(null);
+    setScale(value);
+  };
+
+  // A title set in the PDF names it better than the file name does
+  useEffect(() => {
+    setMetadataTitle(null);
+    if (!pdfDocument) return;
+    let cancelled = false;
+    pdfDocument.getMetadata().then(
+      ({ info }) => {
+        const value = (info as { Title?: unknown }).Title;
+        if (!cancelled && typeof value === "string" && value.trim()) {
+          setMetadataTitle(value.trim());
+        }
+      },
+      (error) => console.error("Error reading document metadata:", error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument]);
+
+  // Documents opened by a renderer report in like react-pdf's Document
+  useEffect(() => {
+    if (loaded.document) {
+      setNumPages(loaded.document.numPages);
+      setError(null);
+      callbacksRef.current.onLoad?.({
+        numPages: loaded.document.numPages,
+        pdfDocument: null,
+      });
+    } else if (loaded.error) {
+      setError(loaded.error);
+      setIsLoading(false);
+    }
+  }, [loaded.document, loaded.error]);
+
+  // Start over when the viewer is given another file. The annotations belong
+  // to the document; the saved set for the new one is loaded separately.
+  useEffect(() => {
+    if (fileUrl !== openedUrlRef.current) {
+      openedUrlRef.current = fileUrl;
+      setPdfDocument(null);
+      setSidePanel(null);
+      setIsSearchOpen(false);
+      setIsPrintDialogOpen(false);
+      pendingViewRef.current = null;
+      passwordCallbackRef.current = null;
+      hasTriedPasswordRef.current = false;
+      setPasswordReason(null);
+      hasShownInitialViewRef.current = false;
+      isSearchJumpPendingRef.current = false;
+      setNumPages(0);
+      setPageNumber(1);
+      setScale(1.0);
+      setFitScale(1.0);
+      setFitMode("page");
+      setError(null);
+      setLoadProgress(null);
+      setIsLoading(true);
+      setPageSize(null);
+      setRenderedRange(null);
+      panOffsetRef.current = { x: 0, y: 0 };
+      cancelDraft();
+      selectThread(null);
+      applyAnnotations(EMPTY_ANNOTATIONS);
+    }
+  }, [fileUrl]);
+
+  // Drafts are drawn on a single page, so drop them when navigating away.
+  // In continuous mode the page changes while scrolling and stays on screen.
+  useEffect(() => {
+    if (viewMode !== "continuous") {
+      cancelDraft();
+      selectThread(null);
+    }
+  }, [pageNumber, viewMode]);
+
+  useEffect(() => {
+    cancelDraft();
+    selectThread(null);
+  }, [activeMode, viewMode]);
+
+  // A new query starts over from the current page
+  useEffect(() => {
+    setCurrentMatchIndex(-1);
+  }, [searchQuery, searchOptions, isSearchOpen, pdfDocument]);
+
+  useEffect(() => {
+    if (isSearchJumpPendingRef.current && search.matches.length > 0) {
+      isSearchJumpPendingRef.current = false;
+      handleNextMatchRef.current?.();
+    }
+  }, [search.matches]);
+
+  // Calculate fit scale when loading completes, and again when turning pages
+  // changes the box that has to fit. The initial view goes over the first fit.
+  useEffect(() => {
+    if (!isLoading) {
+      calculateFitScaleRef.current?.();
+      if (!hasShownInitialViewRef.current) {
+        hasShownInitialViewRef.current = true;
+        if (initialViewRef.current)
+          showViewRef.current?.(initialViewRef.current);
+      }
+    }
+  }, [isLoading, rotations]);
+
+  useEffect(() => {
+    reportViewRef.current?.();
+  }, [settledView.version, pageNumber]);
+
+  // Hosts hear about the page and zoom the reader settles on
+  useEffect(() => {
+    if (isLoading || pageNumber === reportedPageRef.current) return;
+    reportedPageRef.current = pageNumber;
+    callbacksRef.current.onPageChange?.(pageNumber);
+  }, [pageNumber, isLoading]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    const current = fitMode ?? scaleToPercent(scale);
+    if (current === reportedZoomRef.current) return;
+    reportedZoomRef.current = current;
+    callbacksRef.current.onZoomChange?.(current);
+  }, [scale, fitMode, isLoading]);
+
+  useEffect(() => {
+    if (annotations === reportedAnnotationsRef.current) return;
+    reportedAnnotationsRef.current = annotations;
+    callbacksRef.current.onAnnotationsChange?.(annotations);
+  }, [annotations]);
+
+  useEffect(() => {
+    if (error) callbacksRef.current.onError?.(error);
+  }, [error]);
+
+  // The host's page and zoom are applied when they change, and again once
+  // the document or a new layout is shown
+  useEffect(() => {
+    showPageRef.current?.();
+  }, [page, isLoading]);
+
+  useEffect(() => {
+    showZoomRef.current?.();
+  }, [zoom, isLoading]);
+
+  // Recalculate on container resize
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container) {
+      const resizeObserver = new ResizeObserver(() => {
+        if (!isLoading) {
+          calculateFitScaleRef.current?.();
+        }
+      });
+
+      resizeObserver.observe(container);
+      return () => resizeObserver.disconnect();
+    }
+  }, [isLoading, viewMode, stackLayout]);
+
+  const updateTransform = (newScale: number, zoomOrigin?: Position) => {
+    if (viewerRef.current && containerRef.current && pageRef.current) {
+      if (zoomOrigin) {
+        // Keep the point under the zoom origin in place
+        panOffsetRef.current = anchoredPan(
+          panOffsetRef.current,
+          scaleRef.current,
+          newScale,
+          toContainerPoint(zoomOrigin.x, zoomOrigin.y)
+        );
+      }
+
+      scaleRef.current = newScale;
+      viewerRef.current.style.transform = `translate(${panOffsetRef.current.x}px, ${panOffsetRef.current.y}px) scale(${newScale})`;
+      syncVisiblePages(newScale);
+      scheduleSettle(newScale);
+    }
+  };
+
+  // In continuous mode, render the pages around the viewport and track the
+  // one most in view as the current page
+  const syncVisiblePages = (currentScale: number) => {
+    if (!isContinuous || !stackLayout || !containerRef.current) return;
+    const top = -panOffsetRef.current.y / currentScale;
+    const bottom = top + containerRef.current.clientHeight / currentScale;
+    const [first, last] = visibleRange(stackLayout, top, bottom, PAGE_OVERSCAN);
+    setRenderedRange((prev) =>
+      prev && prev[0] === first && prev[1] === last ? prev : [first, last]
+    );
+    setPageNumber(mostVisiblePage(stackLayout, top, bottom));
+  };
+
+  // Size of a page in page space, before the reader's rotation
+  const pageSizeOf = (targetPage: number): PageSize | null => {
+    if (isContinuous) return pageSizes?.[targetPage - 1] ?? null;
+    if (!visiblePages.includes(targetPage)) return null;
+    if (targetPage === pageNumber && pageSize) return pageSize;
+    return pageSizes?.[targetPage - 1] ?? null;
+  };
+
+  // The reader's rotations apply on top of the declared ones, so they wait
+  // until those are known
+  const rotationOf = (targetPage: number): Rotation =>
+    pageSizes ? rotations[targetPage] ?? 0 : 0;
+
+  // Rotation passed to react-pdf, which replaces the page's own
+  const pageRotate = (targetPage: number) => {
+    const declared = pageSizes?.[targetPage - 1]?.rotation;
+    return declared === undefined
+      ? undefined
+      : rotateBy(declared, rotationOf(targetPage));
+  };
+
+  // Until every page is read, a page counts as unrotated with its box at the
+  // origin, which is how most PDFs have it
+  const geometryOf = (targetPage: number, size: PageSize): PageGeometry =>
+    pageSizes?.[targetPage - 1] ?? { ...size, rotation: 0 };
+
+  const displaySizeOf = (targetPage: number) => {
+    const size = pageSizeOf(targetPage);
+    return size && rotatedSize(size, rotationOf(targetPage));
+  };
+
+  // Screen rectangle of a page; in continuous mode it may be off screen
+  const pageScreenRect = (targetPage: number) => {
+    if (isContinuous) {
+      const size = stackLayout?.pageSizes[targetPage - 1];
+      if (!containerRef.current || !stackLayout || !size) return null;
+      const container = containerRef.current.getBoundingClientRect();
+      const origin = pageOrigin(stackLayout, targetPage);
+      return {
+        left:
+          container.left + panOffsetRef.current.x + origin.x * scaleRef.current,
+        top:
+          container.top + panOffsetRef.current.y + origin.y * scaleRef.current,
+        width: size.width * scaleRef.current,
+        height: size.height * scaleRef.current,
+      };
+    }
+    const element = viewerRef.current?.querySelector(
+      `[data-page-number="${targetPage}"]`
+    );
+    return element?.getBoundingClientRect() ?? null;
+  };
+
+  // Page under a client position, or the nearest one shown
+  const pageAt = (clientX: number, clientY: number) => {
+    if (!isContinuous) {
+      return (
+        visiblePages.find((page) => {
+          const rect = pageScreenRect(page);
+          return rect && clientX < rect.left + rect.width;
+        }) ?? lastVisiblePage
+      );
+    }
+    if (!stackLayout || !containerRef.current) return pageNumber;
+    const container = containerRef.current.getBoundingClientRect();
+    const y =
+      (clientY - container.top - panOffsetRef.current.y) / scaleRef.current;
+    return pageAtOffset(stackLayout, y);
+  };
+
+  // Pan so a page-space point sits at the top-left (after padding) or center
+  // of the container, keeping the current zoom
+  const panToPagePoint = (
+    point: Partial<PagePoint>,
+    align: "start" | "center" = "start",
+    size: PageSize | null = pageSize,
+    targetPage = pageNumber
+  ) => {
+    if (!size) return;
+    const rotation = rotationOf(targetPage);
+    const display = toDisplayPoint(
+      { x: point.x ?? 0, y: point.y ?? 0 },
+      size,
+      rotation
+    );
+    // A quarter turn swaps the screen axis each coordinate moves along
+    const [screenX, screenY] =
+      rotation % 180 === 0 ? [point.x, point.y] : [point.y, point.x];
+    panToDisplayPoint(
+      {
+        ...(screenX !== undefined && { x: display.x }),
+        ...(screenY !== undefined && { y: display.y }),
+      },
+      align,
+      rotatedSize(size, rotation),
+      targetPage
+    );
+  };
+
+  // Same as panToPagePoint, for a point on the page as it is shown
+  const panToDisplayPoint = (
+    point: Partial<PagePoint>,
+    align: "start" | "center",
+    size: PageSize,
+    targetPage: number
+  ) => {
+    const page = pageScreenRect(targetPage);
+    if (!containerRef.current || !page) return;
+    const container = containerRef.current.getBoundingClientRect();
+
+    if (point.x !== undefined) {
+      const screenX = page.left + (point.x / size.width) * page.width;
+      const targetX =
+        align === "center"
+          ? container.left + container.width / 2
+          : container.left + PADDING;
+      panOffsetRef.current.x += targetX - screenX;
+    }
+    if (point.y !== undefined) {
+      const screenY = page.top + (point.y / size.height) * page.height;
+      const targetY =
+        align === "center"
+          ? container.top + container.height / 2
+          : container.top + PADDING;
+      panOffsetRef.current.y += targetY - screenY;
+    }
+
+    updateTransform(scaleRef.current);
+  };
+
+  // Applies a view change now, or after rendering when it targets another page.
+  // Continuous mode lays out every page up front, so it never has to wait.
+  const showPage = (targetPage: number, apply: (size: PageSize) => void) => {
+    // Only pages on screen have a size outside continuous mode
+    const size = pageSizeOf(targetPage);
+    if (size) {
+      apply(size);
+    } else if (!isContinuous) {
+      pendingViewRef.current = { pageNumber: targetPage, apply };
+      setPageNumber(spreadStart(viewMode, targetPage));
+    }
+  };
+
+  const goToPage = (targetPage: number) => {
+    const page = Math.min(Math.max(1, targetPage), numPages);
+    const size = displaySizeOf(page);
+    if (isContinuous && size) {
+      panToDisplayPoint({ y: 0 }, "start", size, page);
+    } else if (!isContinuous) {
+      setPageNumber(spreadStart(viewMode, page));
+    }
+  };
+
+  // Continuous mode scrolls to the page first, in case the target has no
+  // vertical anchor
+  const navigateTo = (target: DestinationTarget) =>
+    showPage(target.pageNumber, (size) => {
+      if (isContinuous) goToPage(target.pageNumber);
+      panToPagePoint(target.point, "start", size, target.pageNumber);
+    });
+
+  const showView = (view: DocumentView) => {
+    const targetPage = Math.min(Math.max(1, view.pageNumber), numPages);
+    if (view.search) {
+      setSearchQuery(view.search);
+      setIsSearchOpen(true);
+      isSearchJumpPendingRef.current = true;
+    }
+    showPage(targetPage, (size) => {
+      if (view.zoom !== undefined) applyZoom(view.zoom);
+      if (isContinuous) goToPage(targetPage);
+      if (view.position) {
+        panToPagePoint(
+          fromUserSpace(view.position, geometryOf(targetPage, size)),
+          "start",
+          size,
+          targetPage
+        );
+      }
+    });
+  };
+  showViewRef.current = showView;
+
+  // The point at the viewer's top-left in user space, the way showView reads it
+  const reportView = () => {
+    if (!onViewChange || isLoading || error || !containerRef.current) return;
+    const container = containerRef.current.getBoundingClientRect();
+    const cornerX = container.left + PADDING;
+    const cornerY = container.top + PADDING;
+    const cornerPage = isContinuous ? pageAt(cornerX, cornerY) : pageNumber;
+    const point = toPagePoint(cornerX, cornerY, cornerPage);
+    const size = pageSizeOf(cornerPage);
+    const position =
+      point && size && toUserSpace(point, geometryOf(cornerPage, size));
+    onViewChange({
+      pageNumber: cornerPage,
+      zoom: fitMode ?? scaleToPercent(scaleRef.current),
+      ...(position && { position }),
+    });
+  };
+  reportViewRef.current = reportView;
+
+  showPageRef.current = () => {
+    if (page === undefined || isLoading || error || !numPages) return;
+    if (!visiblePages.includes(page)) goToPage(page);
+  };
+
+  showZoomRef.current = () => {
+    if (zoom === undefined || isLoading || error) return;
+    if (zoom !== (fitMode ?? scaleToPercent(scaleRef.current))) {
+      applyZoom(zoom);
+    }
+  };
+
+  // A bookmark's pan offset only makes sense in the layout it was taken in
+  const restoreBookmark = (bookmark: Bookmark) => {
+    if ((bookmark.viewMode ?? "single") !== viewMode) {
+      goToPage(bookmark.pageNumber);
+      return;
+    }
+    showPage(bookmark.pageNumber, () => {
+      setManualScale(bookmark.scale);
+      panOffsetRef.current = { ...bookmark.panOffset };
+      updateTransform(bookmark.scale);
+    });
+  };
+
+  const showAnnotation = (entry: AnnotationEntry) =>
+    showPage(entry.pageNumber, (size) => {
+      panToPagePoint(entry.point, "center", size, entry.pageNumber);
+      if (entry.type === "comment") selectThread(entry.id);
+    });
+
+  const goToMatch = (index: number) => {
+    const match = search.matches[index];
+    if (!match) return;
+    setCurrentMatchIndex(index);
+    showPage(match.pageNumber, (size) =>
+      panToPagePoint(
+        rectCenter(match.rects[0]),
+        "center",
+        size,
+        match.pageNumber
+      )
+    );
+  };
+
+  const handleNextMatch = () => {
+    if (search.matches.length === 0) return;
+    if (currentMatchIndex === -1) {
+      const index = search.matches.findIndex((m) => m.pageNumber >= pageNumber);
+      goToMatch(index === -1 ? 0 : index);
+    } else {
+      goToMatch((currentMatchIndex + 1) % search.matches.length);
+    }
+  };
+
+  handleNextMatchRef.current = handleNextMatch;
+
+  const handlePreviousMatch = () => {
+    const count = search.matches.length;
+    if (count === 0) return;
+    if (currentMatchIndex === -1) {
+      const index = search.matches.findLastIndex(
+        (m) => m.pageNumber <= pageNumber
+      );
+      goToMatch(index === -1 ? count - 1 : index);
+    } else {
+      goToMatch((currentMatchIndex - 1 + count) % count);
+    }
+  };
+
+  const openSearch = () => {
+    setIsSearchOpen(true);
+    // Focus after the bar has mounted, and select any previous query
+    requestAnimationFrame(() => searchInputRef.current?.select());
+  };
+
+  // Ctrl/Cmd+F searches this document instead of the browser page
+  const handleViewerKeyDown = (e: React.KeyboardEvent) => {
+    if (
+      pdfDocument &&
+      isShown("search") &&
+      (e.ctrlKey || e.metaKey) &&
+      e.key.toLowerCase() === "f"
+    ) {
+      e.preventDefault();
+      openSearch();
+      return;
+    }
+    // Printing goes through the viewer so pages print at full resolution
+    if (
+      pdfDocument &&
+      isShown("print") &&
+      (e.ctrlKey || e.metaKey) &&
+      e.key.toLowerCase() === "p"
+    ) {
+      e.preventDefault();
+      setIsPrintDialogOpen(true);
+      return;
+    }
+    // Menus, toggle groups and fields handle their own keys first
+    if (e.defaultPrevented) return;
+    const target = e.target as HTMLElement;
+    if (target.closest("input, textarea, select, [role^='menu']")) return;
+    if (e.key === "Escape" && cancelInteraction()) {
+      e.preventDefault();
+      return;
+    }
+    const action = matchShortcut(e);
+    if (!action || SHORTCUT_FEATURES[action]?.some((f) => !isShown(f))) return;
+    if (action !== "toggleShortcuts" && (isLoading || error)) return;
+    e.preventDefault();
+    runShortcut(action);
+  };
+
+  const scrollBy = (deltaX: number, deltaY: number) => {
+    stopInertia();
+    panOffsetRef.current = clampPan(
+      {
+        x: panOffsetRef.current.x - deltaX,
+        y: panOffsetRef.current.y - deltaY,
+      },
+      scaleRef.current
+    );
+    updateTransform(scaleRef.current);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    // Sideways arrows turn pages unless there is something to scroll to
+    const isZoomedIn = scaleRef.current > fitScale * 1.01;
+    switch (action) {
+      case "previousPage":
+        return goToPage(pageNumber - 1);
+      case "nextPage":
+        return goToPage(lastVisiblePage + 1);
+      case "firstPage":
+        return goToPage(1);
+      case "lastPage":
+        return goToPage(numPages);
+      case "scrollUp":
+        return scrollBy(0, -KEYBOARD_SCROLL_STEP);
+      case "scrollDown":
+        return scrollBy(0, KEYBOARD_SCROLL_STEP);
+      case "scrollLeft":
+        return isZoomedIn
+          ? scrollBy(-KEYBOARD_SCROLL_STEP, 0)
+          : goToPage(pageNumber - 1);
+      case "scrollRight":
+        return isZoomedIn
+          ? scrollBy(KEYBOARD_SCROLL_STEP, 0)
+          : goToPage(lastVisiblePage + 1);
+      case "zoomIn":
+        return handleZoomIn();
+      case "zoomOut":
+        return handleZoomOut();
+      case "resetZoom":
+        return handleResetView();
+      case "dragMode":
+        return changeMode("drag");
+      case "selectMode":
+        return changeMode("select");
+      case "rulerMode":
+        return changeMode("ruler");
+      case "commentMode":
+        return changeMode("comment");
+      case "toggleShortcuts":
+        return setSidePanel((panel) =>
+          panel === "shortcuts" ? null : "shortcuts"
+        );
+    }
+  };
+
+  const bookmarkCurrentView = () =>
+    addBookmark({
+      label: `Page ${pageNumber}`,
+      pageNumber,
+      scale,
+      panOffset: { ...panOffsetRef.current },
+      viewMode,
+    });
+
+  const formatZoom = (value: number) => `${scaleToPercent(value)}%`;
+
+  const clampScale = (value: number) =>
+    Math.min(MAX_SCALE, Math.max(fitScale * MIN_SCALE_FACTOR, value));
+
+  // Client coordinates relative to the viewer container
+  const toContainerPoint = (clientX: number, clientY: number): Position => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return rect
+      ? { x: clientX - rect.left, y: clientY - rect.top }
+      : { x: clientX, y: clientY };
+  };
+
+  // Continuous mode keeps the stack from scrolling out of view vertically
+  const clampPan = (pan: Position, currentScale: number): Position => {
+    if (!isContinuous || !stackLayout || !containerRef.current) return pan;
+    const containerHeight = containerRef.current.clientHeight;
+    const minY =
+      containerHeight - PADDING - stackLayout.totalSize * currentScale;
+    return { x: pan.x, y: Math.min(PADDING, Math.max(minY, pan.y)) };
+  };
+
+  // Convert client coordinates to PDF page space, independent of zoom and pan
+  const toPagePoint = (
+    clientX: number,
+    clientY: number,
+    targetPage = pageNumber
+  ): PagePoint | null => {
+    const rect = pageScreenRect(targetPage);
+    const size = pageSizeOf(targetPage);
+    if (!rect || !size || rect.width === 0 || rect.height === 0) return null;
+    const rotation = rotationOf(targetPage);
+    const displaySize = rotatedSize(size, rotation);
+    return fromDisplayPoint(
+      {
+        x: ((clientX - rect.left) / rect.width) * displaySize.width,
+        y: ((clientY - rect.top) / rect.height) * displaySize.height,
+      },
+      size,
+      rotation
+    );
+  };
+
+  const cancelDraft = () => {
+    setDraftPoints([]);
+    setHoverPoint(null);
+    setPendingCalibration(null);
+  };
+
+  const commitMeasurement = (
+    kind: Measurement["kind"],
+    points: PagePoint[]
+  ) => {
+    setMeasurements((prev) => [
+      ...prev,
+      {
+        id: createId(),
+        kind,
+        pageNumber: draftPageNumber,
+        points,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    setDraftPoints([]);
+    setHoverPoint(null);
+  };
+
+  const finishDraft = () => {
+    if (
+      (measurementTool === "polyline" || measurementTool === "area") &&
+      draftPoints.length >= MIN_POINTS[measurementTool]
+    ) {
+      commitMeasurement(measurementTool, draftPoints);
+    }
+  };
+
+  const handleMeasurementClick = (client: Position, tapCount: number) => {
+    // Later points of a shape land on the page it was started on
+    const targetPage =
+      draftPoints.length > 0 ? draftPageNumber : pageAt(client.x, client.y);
+    const point = toPagePoint(client.x, client.y, targetPage);
+    if (!point) return;
+    setDraftPageNumber(targetPage);
+
+    switch (measurementTool) {
+      case "distance":
+        if (draftPoints.length === 0) {
+          setDraftPoints([point]);
+        } else {
+          commitMeasurement("distance", [draftPoints[0], point]);
+        }
+        break;
+      case "calibrate":
+        if (draftPoints.length === 1 && pendingCalibration === null) {
+          const length = distanceBetween(draftPoints[0], point);
+          if (length > 0) {
+            setDraftPoints([draftPoints[0], point]);
+            setHoverPoint(null);
+            setPendingCalibration(length);
+          }
+        } else {
+          setPendingCalibration(null);
+          setDraftPoints([point]);
+        }
+        break;
+      case "polyline":
+      case "area":
+        // The second click of a double-click finishes the shape instead
+        if (tapCount > 1) {
+          finishDraft();
+          return;
+        }
+        setDraftPoints((prev) => [...prev, point]);
+        break;
+    }
+  };
+
+  const handleCalibrate = (knownLength: number, unit: MeasurementUnit) => {
+    if (pendingCalibration === null) return;
+    setCalibrations((prev) => ({
+      ...prev,
+      [draftPageNumber]: createCalibration(
+        pendingCalibration,
+        knownLength,
+        unit
+      ),
+    }));
+    cancelDraft();
+  };
+
+  const handleMeasurementToolChange = (tool: MeasurementTool) => {
+    setMeasurementTool(tool);
+    cancelDraft();
+  };
+
+  // Opening another thread (or none) discards a new pin left without a comment
+  const selectThread = (threadId: string | null) => {
+    setCommentThreads((prev) =>
+      prev.filter((t) => t.messages.length > 0 || t.id === threadId)
+    );
+    setActiveThreadId(threadId);
+  };
+
+  const handleCommentClick = (client: Position) => {
+    // Clicking away from an open thread only closes it
+    if (activeThreadId) {
+      selectThread(null);
+      return;
+    }
+    const targetPage = pageAt(client.x, client.y);
+    const point = toPagePoint(client.x, client.y, targetPage);
+    if (!point) return;
+    const thread = createThread(targetPage, point);
+    setCommentThreads((prev) => [...prev, thread]);
+    setActiveThreadId(thread.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (activeMode === "ruler" && e.key === "Enter") {
+      finishDraft();
+    }
+  };
+
+  // Escape backs out of the current drawing or thread first
+  const cancelInteraction = () => {
+    if (draftPoints.length === 0 && !activeThreadId) return false;
+    cancelDraft();
+    selectThread(null);
+    return true;
+  };
+
+  const handleToolClick = (client: Position, tapCount: number) => {
+    if (activeMode === "ruler") {
+      handleMeasurementClick(client, tapCount);
+    } else if (activeMode === "comment") {
+      handleCommentClick(client);
+    }
+  };
+
+  const handleResetView = () => fitTo(isContinuous ? "width" : "page");
+
+  const { isPanning, stopInertia, resetGestures, pointerHandlers } =
+    useViewerGestures({
+      containerRef,
+      panOffsetRef,
+      scaleRef,
+      mode: activeMode,
+      fitScale,
+      scrollsWithWheel: isContinuous && !!stackLayout,
+      toContainerPoint,
+      clampScale,
+      clampPan,
+      updateTransform,
+      onZoom: setManualScale,
+      onResetView: handleResetView,
+      onToolClick: handleToolClick,
+    });
+
+  // Gestures on the previous file end with it
+  useEffect(() => {
+    resetGestures();
+  }, [fileUrl, resetGestures]);
+
+  // The ruler's next segment follows the pointer
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (
+      activeMode === "ruler" &&
+      draftPoints.length > 0 &&
+      pendingCalibration === null
+    ) {
+      setHoverPoint(toPagePoint(e.clientX, e.clientY, draftPageNumber));
+    }
+    pointerHandlers.onPointerMove(e);
+  };
+
+  // Zooms around the center of the viewer
+  const zoomTo = (value: number) => {
+    if (containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect();
+      const centerX = rect.left + rect.width / 2;
+      const centerY = rect.top + rect.height / 2;
+
+      const newScale = clampScale(value);
+      setManualScale(newScale);
+      updateTransform(newScale, { x: centerX, y: centerY });
+    }
+  };
+
+  const applyZoom = (value: ZoomValue) =>
+    typeof value === "string" ? fitTo(value) : zoomTo(percentToScale(value));
+
+  const handleZoomIn = () => zoomTo(scaleRef.current * ZOOM_STEP);
+
+  const handleZoomOut = () => zoomTo(scaleRef.current / ZOOM_STEP);
+
+  // The new layout is fitted once its first page has loaded
+  const changeViewMode = (mode: ViewMode) => {
+    if (mode === viewMode) return;
+    pendingViewRef.current = null;
+    setRenderedRange(null);
+    setIsLoading(true);
+    setViewMode(mode);
+    setPageNumber(spreadStart(mode, pageNumber));
+    // A zoom typed for one layout rarely suits the next
+    if (!fitMode) {
+      fitModeRef.current = mode === "continuous" ? "width" : "page";
+      setFitMode(fitModeRef.current);
+    }
+  };
+
+  // Overlays draw on the page as it is shown, while everything they display
+  // stays anchored in page space
+  const renderPageOverlays = (targetPage: number, size: PageSize) => {
+    const rotation = rotationOf(targetPage);
+    const displaySize = rotatedSize(size, rotation);
+    const toDisplay = (point: PagePoint) =>
+      toDisplayPoint(point, size, rotation);
+    const pageMatches = search.matches.filter(
+      (m) => m.pageNumber === targetPage
+    );
+    const displayMatches = pageMatches.map((match) => ({
+      ...match,
+      rects: match.rects.map((rect) => toDisplayRect(rect, size, rotation)),
+    }));
+    const currentIndex = currentMatch ? pageMatches.indexOf(currentMatch) : -1;
+
+    return (
+      <>
+        <HighResLayer
+          pageSize={displaySize}
+          renderScale={settledView.scale}
+          viewVersion={settledView.version}
+          viewportRef={containerRef}
+        />
+        {isSearchOpen && (
+          <SearchHighlightLayer
+            pageSize={displaySize}
+            matches={displayMatches}
+            currentMatch={displayMatches[currentIndex] ?? null}
+          />
+        )}
+        <MeasurementLayer
+          pageSize={displaySize}
+          scale={scale}
+          measurements={measurements
+            .filter((m) => m.pageNumber === targetPage)
+            .map((m) => ({ ...m, points: m.points.map(toDisplay) }))}
+          calibration={calibrations[targetPage]}
+          draftTool={measurementTool}
+          draftPoints={
+            targetPage === draftPageNumber ? draftPoints.map(toDisplay) : []
+          }
+          hoverPoint={
+            targetPage === draftPageNumber && hoverPoint
+              ? toDisplay(hoverPoint)
+              : null
+          }
+        />
+        <CommentLayer
+          pageSize={displaySize}
+          scale={scale}
+          threads={commentThreads
+            .filter((t) => t.pageNumber === targetPage)
+            .map((t) => ({ ...t, position: toDisplay(t.position) }))}
+          activeThreadId={activeThreadId}
+          currentUser={currentUser}
+          onSelectThread={selectThread}
+          onAddMessage={(threadId, body) =>
+            setCommentThreads((prev) =>
+              addMessage(prev, threadId, createMessage(currentUser, body))
+            )
+          }
+          onEditMessage={(threadId, messageId, body) =>
+            setCommentThreads((prev) =>
+              editMessage(prev, threadId, messageId, body)
+            )
+          }
+          onDeleteMessage={(threadId, messageId) =>
+            setCommentThreads((prev) =>
+              deleteMessage(prev, threadId, messageId)
+            )
+          }
+          onResolvedChange={(threadId, resolved) =>
+            setCommentThreads((prev) =>
+              setThreadResolved(prev, threadId, resolved)
+            )
+          }
+        />
+      </>
+    );
+  };
+
+  const pageLabel = `${
+    visiblePages.length > 1
+      ? `Pages ${pageNumber}–${lastVisiblePage}`
+      : `Page ${pageNumber}`
+  } of ${numPages}`;
+
+  // The ruler panel follows the draft, which may be on a page scrolled away from
+  const toolbarPage = draftPoints.length > 0 ? draftPageNumber : pageNumber;
+
+  // The password prop is tried once, then the host's callback, then the reader
+  const handlePassword = async (
+    callback: (password: string) => void,
+    response: number
+  ) => {
+    const reason: PasswordReason =
+      response === PasswordResponses.INCORRECT_PASSWORD
+        ? "incorrect"
+        : "required";
+    if (password && !hasTriedPasswordRef.current) {
+      hasTriedPasswordRef.current = true;
+      callback(password);
+      return;
+    }
+    try {
+      const supplied = await onPasswordRequest?.(reason);
+      if (supplied) {
+        callback(supplied);
+        return;
+      }
+    } catch (error) {
+      console.error("Error requesting a password:", error);
+    }
+    passwordCallbackRef.current = callback;
+    setPasswordReason(reason);
+  };
+
+  const submitPassword = (value: string) => {
+    passwordCallbackRef.current?.(value);
+    passwordCallbackRef.current = null;
+    setPasswordReason(null);
+  };
+
+  // Unmounting the document stops loading; react-pdf cleans up the pdf.js
+  // task once it settles
+  const cancelLoad = () => {
+    setError(
+      new DocumentLoadError(
+        "cancelled",
+        "The document was not opened. Retry to load it again."
+      )
+    );
+    setIsLoading(false);
+  };
+
+  const retryLoad = () => {
+    setPdfDocument(null);
+    setLoadProgress(null);
+    setPasswordReason(null);
+    passwordCallbackRef.current = null;
+    hasTriedPasswordRef.current = false;
+    setIsLoading(true);
+    setError(null);
+  };
+
+  const hasMarkup =
+    measurements.length > 0 ||
+    commentThreads.some((t) => t.messages.length > 0);
+
+  const {
+    isExporting,
+    exportError,
+    downloadOriginal,
+    downloadWithMarkup,
+    printDocument,
+  } = useDocumentExport({ fileUrl, pdfDocument, annotations, rotationOf });
+
+  // Calls made before the document is shown are ignored, as the toolbar's
+  // would be
+  useImperativeHandle(ref, () => {
+    const isReady = !isLoading && !error;
+    return {
+      goToPage: (targetPage) => {
+        if (isReady) goToPage(targetPage);
+      },
+      zoomTo: (value) => {
+        if (isReady) applyZoom(value);
+      },
+      fitPage: () => {
+        if (isReady) fitTo("page");
+      },
+      search: (query, options) => {
+        if (!isReady || !pdfDocument) return;
+        if (options) setSearchOptions((prev) => ({ ...prev, ...options }));
+        setSearchQuery(query);
+        openSearch();
+        // The same search has its matches already and only needs the jump
+        if (isSearchOpen && query === searchQuery && !options) {
+          handleNextMatch();
+        } else {
+          isSearchJumpPendingRef.current = true;
+        }
+      },
+      getAnnotations: () => annotations,
+      hasUnsavedChanges: () => savedAnnotations.isDirty,
+      cancelInteraction,
+    };
+  });
+
+  const handlePageLoad = (targetPage: number, size: PageSize) => {
+    if (targetPage === pageNumber) setPageSize(size);
+    setIsLoading(false);
+  };
+
+  const handlePageRender = (targetPage: number, size: PageSize) => {
+    const pendingView = pendingViewRef.current;
+    if (pendingView?.pageNumber === targetPage) {
+      pendingViewRef.current = null;
+      pendingView.apply(size);
+    }
+  };
+
+  // PDF pages come from react-pdf, other files from their renderer
+  const renderDocumentPage = (targetPage: number) => {
+    const size = pageSizeOf(targetPage);
+    const overlays = size && renderPageOverlays(targetPage, size);
+    if (renderer) {
+      const document = loaded.document;
+      if (!document) return null;
+      const renderedSize = document.pageSizes[targetPage - 1];
+      return (
+        <RenderedPage
+          document={document}
+          pageNumber={targetPage}
+          rotation={rotationOf(targetPage)}
+          onRender={() => {
+            handlePageLoad(targetPage, renderedSize);
+            handlePageRender(targetPage, renderedSize);
+          }}
+        >
+          {overlays}
+        </RenderedPage>
+      );
+    }
+    return (
+      <Page
+        pageNumber={targetPage}
+        scale={BASE_SCALE}
+        rotate={pageRotate(targetPage)}
+        renderTextLayer={true}
+        renderAnnotationLayer={false}
+        onLoadSuccess={(page) =>
+          handlePageLoad(page.pageNumber, pageSpaceSize(page))
+        }
+        onRenderSuccess={(page) =>
+          handlePageRender(page.pageNumber, pageSpaceSize(page))
+        }
+        loading={null}
+      >
+        {overlays}
+      </Page>
+    );
+  };
+
+  const documentPages = isContinuous ? (
+    stackLayout && (
+      <PageStack
+        layout={stackLayout}
+        range={
+          renderedRange ?? [
+            Math.max(0, pageNumber - 1 - PAGE_OVERSCAN),
+            Math.min(numPages - 1, pageNumber - 1 + PAGE_OVERSCAN),
+          ]
+        }
+        renderPage={renderDocumentPage}
+      />
+    )
+  ) : (
+    // Pages of different sizes line up on their centers
+    <div className="flex items-center" style={{ gap: PAGE_GAP }}>
+      {visiblePages.map((spreadPage) => {
+        const displaySize = displaySizeOf(spreadPage);
+        return (
+          <div
+            key={spreadPage}
+            data-page-number={spreadPage}
+            style={
+              displaySize
+                ? { width: displaySize.width, height: displaySize.height }
+                : undefined
+            }
+          >
+            {renderDocumentPage(spreadPage)}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const getCursorStyle = () => {
+    if (isPanning) return "grabbing";
+    switch (activeMode) {
+      case "drag":
+        return "grab";
+      case "select":
+        return "text";
+      case "ruler":
+        return "crosshair";
+      case "comment":
+        return "text";
+      default:
+        return "default";
+    }
+  };
+
+  return (
+    <div
+      className={cn("flex h-full flex-col overflow-hidden", className)}
+      onKeyDown={handleViewerKeyDown}
+    >
+      <div className="p-6">
+        {renderHeader({ title: title ?? defaultTitle, description })}
+        <p id={keyboardHintId} className="sr-only">
+          Use the arrow keys and Page Up or Page Down to move through the
+          document, plus and minus to zoom, and question mark to list every
+          keyboard shortcut.
+        </p>
+        <div className="sr-only" aria-live="polite" aria-atomic="true">
+          {isLoading || error ? "" : pageLabel}
+        </div>
+      </div>
+      <div className="flex-1 flex overflow-hidden">
+        {isThumbnailRailOpen && !error && (
+          <ThumbnailRail
+            pdf={pdfDocument}
+            document={loaded.document}
+            numPages={numPages}
+            pageSizes={pageSizes}
+            rotations={rotations}
+            currentPage={pageNumber}
+            onSelectPage={goToPage}
+          />
+        )}
+        {sidePanel && (
+          <ViewerSidePanel
+            title={SIDE_PANEL_TITLES[sidePanel]}
+            onClose={() => setSidePanel(null)}
+            actions={
+              sidePanel === "bookmarks" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={bookmarkCurrentView}
+                  disabled={isLoading || !!error}
+                  aria-label="Bookmark current view"
+                >
+                  <BookmarkPlus className="h-4 w-4" />
+                </Button>
+              )
+            }
+          >
+            {sidePanel === "outline" && (
+              <OutlinePanel pdf={pdfDocument} onNavigate={navigateTo} />
+            )}
+            {sidePanel === "bookmarks" && (
+              <BookmarksPanel
+                bookmarks={bookmarks}
+                formatZoom={formatZoom}
+                onSelect={restoreBookmark}
+                onRename={renameBookmark}
+                onMove={moveBookmark}
+                onRemove={removeBookmark}
+              />
+            )}
+            {sidePanel === "annotations" && (
+              <AnnotationsPanel
+                entries={annotationEntries}
+                isLoadingEmbedded={embeddedAnnotations.isLoading}
+                onSelect={showAnnotation}
+              />
+            )}
+            {sidePanel === "shortcuts" && <KeyboardShortcutsPanel />}
+          </ViewerSidePanel>
+        )}
+        <div
+          ref={containerRef}
+          className={cn(
+            "flex-1 overflow-hidden relative cursor-grab outline-none bg-gray-50 touch-none",
+            activeMode !== "select" && "select-none"
+          )}
+          {...pointerHandlers}
+          onPointerMove={handlePointerMove}
+          onKeyDown={handleKeyDown}
+          tabIndex={0}
+          role="region"
+          aria-label="Document pages"
+          aria-describedby={keyboardHintId}
+          style={{ cursor: getCursorStyle() }}
+        >
+          {error ? (
+            <LoadErrorPanel
+              error={error}
+              onRetry={retryLoad}
+              downloadUrl={fileUrl}
+            />
+          ) : (
+            <>
+              {isSearchOpen && !isLoading && (
+                <SearchBar
+                  inputRef={searchInputRef}
+                  query={searchQuery}
+                  onQueryChange={setSearchQuery}
+                  options={searchOptions}
+                  onOptionsChange={setSearchOptions}
+                  matchCount={search.matches.length}
+                  currentIndex={currentMatchIndex}
+                  isSearching={search.isSearching}
+                  onNext={handleNextMatch}
+                  onPrevious={handlePreviousMatch}
+                  onClose={() => {
+                    setIsSearchOpen(false);
+                    containerRef.current?.focus();
+                  }}
+                />
+              )}
+              {activeMode === "ruler" && !isLoading && (
+                <MeasurementToolbar
+                  key={toolbarPage}
+                  tool={measurementTool}
+                  onToolChange={handleMeasurementToolChange}
+                  calibration={calibrations[toolbarPage]}
+                  pendingCalibration={pendingCalibration}
+                  onCalibrate={handleCalibrate}
+                  onCancelCalibration={cancelDraft}
+                  onClearPage={() =>
+                    setMeasurements((prev) =>
+                      prev.filter((m) => m.pageNumber !== toolbarPage)
+                    )
+                  }
+                  canClear={measurements.some(
+                    (m) => m.pageNumber === toolbarPage
+                  )}
+                />
+              )}
+              {passwordReason ? (
+                <PasswordPrompt
+                  reason={passwordReason}
+                  onSubmit={submitPassword}
+                />
+              ) : (
+                isLoading && (
+                  <LoadProgressBar
+                    progress={renderer ? loaded.progress : loadProgress}
+                    onCancel={cancelLoad}
+                  />
+                )
+              )}
+              <div
+                ref={viewerRef}
+                className={cn(
+                  "absolute origin-top-left",
+                  isContinuous
+                    ? "top-0 left-0"
+                    : "inset-0 flex items-center justify-center"
+                )}
+                style={{
+                  visibility: isLoading ? "hidden" : "visible",
+                }}
+              >
+                <div ref={pageRef} className="pdf-page">
+                  {renderer ? (
+                    documentPages
+                  ) : (
+                    <Document
+                      file={fileUrl}
+                      onLoadSuccess={(pdf) => {
+                        setPdfDocument(pdf);
+                        setNumPages(pdf.numPages);
+                        setError(null);
+                        onLoad?.({
+                          numPages: pdf.numPages,
+                          pdfDocument: pdf,
+                        });
+                      }}
+                      onLoadError={(error) => {
+                        console.error("Error loading PDF:", error);
+                        toLoadError(error, fileUrl).then((loadError) => {
+                          setError(loadError);
+                          setIsLoading(false);
+                        });
+                      }}
+                      onLoadProgress={({ loaded, total }) =>
+                        setLoadProgress({ loaded, total: total || null })
+                      }
+                      onPassword={handlePassword}
+                      loading={null}
+                      options={DOCUMENT_OPTIONS}
+                    >
+                      {documentPages}
+                    </Document>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <ViewerToolbar
+        options={toolbar}
+        isReady={!isLoading && !error}
+        hasError={!!error}
+        hasPdf={!!pdfDocument}
+        isThumbnailRailOpen={isThumbnailRailOpen}
+        onToggleThumbnails={() => setIsThumbnailRailOpen((open) => !open)}
+        viewMode={viewMode}
+        onViewModeChange={changeViewMode}
+        visiblePageCount={visiblePages.length}
+        onRotateVisible={(degrees) => rotatePages(visiblePages, degrees)}
+        onRotateAll={(degrees) => rotatePages(allPages, degrees)}
+        pageLabel={pageLabel}
+        canGoBack={pageNumber > 1}
+        canGoForward={lastVisiblePage < numPages}
+        onPreviousPage={() => goToPage(pageNumber - 1)}
+        onNextPage={() => goToPage(lastVisiblePage + 1)}
+        scale={scale}
+        fitMode={fitMode}
+        canZoomIn={scale < MAX_SCALE}
+        canZoomOut={scale > fitScale * MIN_SCALE_FACTOR}
+        onZoomIn={handleZoomIn}
+        onZoomOut={handleZoomOut}
+        onZoomTo={zoomTo}
+        onFit={fitTo}
+        onResetView={handleResetView}
+        mode={activeMode}
+        onModeChange={changeMode}
+        saveControls={
+          <AnnotationSaveControls
+            isLoaded={savedAnnotations.isLoaded}
+            isDirty={savedAnnotations.isDirty}
+            isSaving={savedAnnotations.isSaving}
+            error={savedAnnotations.error}
+            hasConflict={savedAnnotations.hasConflict}
+            onSave={savedAnnotations.save}
+            onOverwrite={savedAnnotations.overwrite}
+            onReload={savedAnnotations.reload}
+          />
+        }
+        isExporting={isExporting}
+        exportError={exportError}
+        hasMarkup={hasMarkup}
+        onDownloadOriginal={downloadOriginal}
+        onDownloadWithMarkup={downloadWithMarkup}
+        onPrint={() => setIsPrintDialogOpen(true)}
+        onSearch={openSearch}
+        isShortcutsOpen={sidePanel === "shortcuts"}
+        onToggleShortcuts={() => runShortcut("toggleShortcuts")}
+        bookmarks={bookmarks}
+        onBookmarkView={bookmarkCurrentView}
+        onSelectBookmark={restoreBookmark}
+        onShowOutline={() => setSidePanel("outline")}
+        onManageBookmarks={() => setSidePanel("bookmarks")}
+        onShowAnnotations={() => setSidePanel("annotations")}
+      />
+      <PrintDialog
+        open={isPrintDialogOpen}
+        onOpenChange={setIsPrintDialogOpen}
+        numPages={numPages}
+        currentPages={visiblePages}
+        hasAnnotations={hasMarkup}
+        onPrint={printDocument}
+      />
+    </div>
+  );
+});
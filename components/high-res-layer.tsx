@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from "react";
+import { usePageContext } from "react-pdf";
+import { PageSize } from "@/lib/measurement";
+import type { PDFPageProxy } from "@/lib/pdf-types";
+import { PageTile, TILE_SIZE, visibleTiles } from "@/lib/tiles";
+import { cn } from "@/lib/utils";
+
+interface HighResLayerProps {
+  pageSize: PageSize;
+  // Zoom the page should look sharp at, once the view has settled
+  renderScale: number;
+  // Changes whenever the view settles, so the visible area is measured again
+  viewVersion: number;
+  viewportRef: React.RefObject<HTMLElement>;
+}
+
+const NO_TILES: PageTile[] = [];
+
+interface TileCanvasProps {
+  page: Pick<PDFPageProxy, "render" | "getViewport">;
+  tile: PageTile;
+  resolution: number;
+  rotation: number;
+}
+
+function TileCanvas({ page, tile, resolution, rotation }: TileCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isRendered, setIsRendered] = useState(false);
+  const { offsetX, offsetY } = tile;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    const task = page.render({
+      canvasContext: context,
+      viewport: page.getViewport({ scale: resolution, rotation }),
+      transform: [1, 0, 0, 1, -offsetX, -offsetY],
+    });
+    task.promise.then(
+      () => setIsRendered(true),
+      (error: Error) => {
+        if (error.name !== "RenderingCancelledException") {
+          console.error("Error rendering page tile:", error);
+        }
+      }
+    );
+    return () => task.cancel();
+  }, [page, resolution, rotation, offsetX, offsetY]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={tile.pixelWidth}
+      height={tile.pixelHeight}
+      // Hidden until drawn so the blurry page shows through instead of white
+      className={cn("absolute", !isRendered && "invisible")}
+      style={{
+        left: tile.x,
+        top: tile.y,
+        width: tile.width,
+        height: tile.height,
+      }}
+    />
+  );
+}
+
+// Draws the visible part of a zoomed-in page at full resolution on top of the
+// canvas react-pdf renders at the base scale
+export function HighResLayer({
+  pageSize,
+  renderScale,
+  viewVersion,
+  viewportRef,
+}: HighResLayerProps) {
+  // The rotation react-pdf draws the page with, declared and user combined
+  const { page, rotate } = usePageContext() ?? {};
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [tiles, setTiles] = useState<PageTile[]>(NO_TILES);
+
+  const devicePixelRatio =
+    typeof window === "undefined" ? 1 : window.devicePixelRatio;
+  const resolution = renderScale * devicePixelRatio;
+  // The base canvas is already drawn at one point per CSS pixel
+  const isNeeded = renderScale > 1;
+  // Compared by value, as rotated sizes are new objects on every render
+  const { width: pageWidth, height: pageHeight } = pageSize;
+
+  useEffect(() => {
+    const layer = layerRef.current?.getBoundingClientRect();
+    const viewport = viewportRef.current?.getBoundingClientRect();
+    if (!isNeeded || !layer || !viewport || layer.width === 0) {
+      setTiles(NO_TILES);
+      return;
+    }
+
+    const left = Math.max(layer.left, viewport.left);
+    const right = Math.min(layer.right, viewport.right);
+    const top = Math.max(layer.top, viewport.top);
+    const bottom = Math.min(layer.bottom, viewport.bottom);
+    if (right <= left || bottom <= top) {
+      setTiles(NO_TILES);
+      return;
+    }
+
+    const pointsPerPixel = pageWidth / layer.width;
+    const visible = {
+      x: (left - layer.left) * pointsPerPixel,
+      y: (top - layer.top) * pointsPerPixel,
+      width: (right - left) * pointsPerPixel,
+      height: (bottom - top) * pointsPerPixel,
+    };
+    // Half a tile of margin covers small pans before the next settle
+    setTiles(
+      visibleTiles(
+        { width: pageWidth, height: pageHeight },
+        resolution,
+        visible,
+        TILE_SIZE / resolution / 2
+      )
+    );
+  }, [isNeeded, pageWidth, pageHeight, resolution, viewVersion, viewportRef]);
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0 overflow-hidden pointer-events-none"
+    >
+      {page &&
+        tiles.map((tile) => (
+          <TileCanvas
+            key={`${rotate}:${tile.key}`}
+            page={page}
+            tile={tile}
+            resolution={resolution}
+            rotation={rotate ?? page.rotate}
+          />
+        ))}
+    </div>
+  );
+}
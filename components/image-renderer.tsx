@@ -0,0 +1,64 @@
+import React from "react";
+import NextImage from "next/image";
+import { DocumentRenderer } from "@/lib/document-renderer";
+import { PageSize } from "@/lib/measurement";
+
+// Browsers give SVGs without their own size this default
+const DEFAULT_IMAGE_SIZE: PageSize = { width: 300, height: 150 };
+
+const loadImageSize = (url: string, signal: AbortSignal) =>
+  new Promise<PageSize>((resolve, reject) => {
+    const image = new Image();
+    const abort = () => {
+      image.src = "";
+      reject(new DOMException("Image loading aborted", "AbortError"));
+    };
+    signal.addEventListener("abort", abort, { once: true });
+    image.onload = () => {
+      signal.removeEventListener("abort", abort);
+      resolve(
+        image.naturalWidth > 0 && image.naturalHeight > 0
+          ? { width: image.naturalWidth, height: image.naturalHeight }
+          : DEFAULT_IMAGE_SIZE
+      );
+    };
+    image.onerror = () => {
+      signal.removeEventListener("abort", abort);
+      reject(new Error("The image could not be decoded"));
+    };
+    image.src = url;
+  });
+
+// A single image shown as a one-page document
+export const imageRenderer: DocumentRenderer = {
+  name: "Image",
+  mimeTypes: [
+    "image/png",
+    "image/jpeg",
+    "image/webp",
+    "image/gif",
+    "image/svg+xml",
+  ],
+  extensions: ["png", "jpg", "jpeg", "webp", "gif", "svg"],
+  load: async (source, signal) => {
+    const size = await loadImageSize(source.url, signal);
+    return {
+      numPages: 1,
+      pageSizes: [size],
+      renderPage: ({ onRender }) => (
+        // The file is shown as it is, so it skips the image optimizer
+        <NextImage
+          src={source.url}
+          alt=""
+          width={size.width}
+          height={size.height}
+          unoptimized
+          loading="eager"
+          draggable={false}
+          className="block max-w-none select-none"
+          onLoad={onRender}
+        />
+      ),
+    };
+  },
+};
@@ -0,0 +1,40 @@
+import React from "react";
+import { SHORTCUT_GROUPS, keyLabel } from "@/lib/keyboard-shortcuts";
+
+export function KeyboardShortcutsPanel() {
+  return (
+    <div className="space-y-4 p-3">
+      {SHORTCUT_GROUPS.map((group) => (
+        <section key={group.title}>
+          <h3 className="mb-1 text-xs font-medium uppercase text-muted-foreground">
+            {group.title}
+          </h3>
+          <dl className="space-y-1 text-sm">
+            {group.shortcuts.map((shortcut) => (
+              <div
+                key={shortcut.action}
+                className="flex items-start justify-between gap-2"
+              >
+                <dt>{shortcut.description}</dt>
+                <dd className="flex shrink-0 gap-1">
+                  {shortcut.keys.map((key) => (
+                    <kbd
+                      key={key}
+                      className="rounded border bg-gray-50 px-1.5 font-mono text-xs"
+                    >
+                      {keyLabel(key)}
+                    </kbd>
+                  ))}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Hold Ctrl or Cmd with the zoom keys to zoom the document instead of the
+        page.
+      </p>
+    </div>
+  );
+}
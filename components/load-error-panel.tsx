@@ -0,0 +1,61 @@
+import React from "react";
+import { AlertCircle, Download, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DocumentLoadError, LOAD_ERROR_TITLES } from "@/lib/load-errors";
+
+interface LoadErrorPanelProps {
+  error: DocumentLoadError;
+  onRetry: () => void;
+  // The original file, which the browser may still be able to open
+  downloadUrl: string;
+}
+
+export function LoadErrorPanel({
+  error,
+  onRetry,
+  downloadUrl,
+}: LoadErrorPanelProps) {
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center p-4 cursor-default"
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div
+        className="w-80 space-y-3 rounded-lg border bg-white p-4 shadow-lg"
+        role="alert"
+      >
+        <div className="flex items-center gap-2 font-medium">
+          <AlertCircle
+            className={
+              error.kind === "cancelled"
+                ? "h-4 w-4 text-muted-foreground"
+                : "h-4 w-4 text-red-500"
+            }
+          />
+          {LOAD_ERROR_TITLES[error.kind]}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {error.message}
+          {error.status !== undefined && ` (HTTP ${error.status})`}
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a
+              href={downloadUrl}
+              download
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Download className="mr-1 h-4 w-4" />
+              Download original
+            </a>
+          </Button>
+          <Button size="sm" onClick={onRetry}>
+            <RotateCw className="mr-1 h-4 w-4" />
+            Retry
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
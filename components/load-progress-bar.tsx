@@ -0,0 +1,71 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { LoadProgress } from "@/lib/document-renderer";
+import { cn } from "@/lib/utils";
+
+interface LoadProgressBarProps {
+  // Null until the first bytes arrive
+  progress: LoadProgress | null;
+  onCancel: () => void;
+}
+
+const UNITS = ["B", "KB", "MB", "GB"];
+
+const formatBytes = (bytes: number) => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`;
+};
+
+export function LoadProgressBar({ progress, onCancel }: LoadProgressBarProps) {
+  const total = progress?.total ?? null;
+  // Range loading may fetch pages in any order, so this can't pass the total
+  const loaded = Math.min(progress?.loaded ?? 0, total ?? Infinity);
+  const label = !progress
+    ? "Loading…"
+    : total
+    ? `${formatBytes(loaded)} of ${formatBytes(total)}`
+    : `${formatBytes(loaded)} loaded`;
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center cursor-default"
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="w-64 space-y-2">
+        <div
+          className="h-2 overflow-hidden rounded-full bg-gray-200"
+          role="progressbar"
+          aria-label="Loading document"
+          aria-valuemin={0}
+          aria-valuemax={total ?? undefined}
+          aria-valuenow={total ? loaded : undefined}
+          aria-valuetext={label}
+        >
+          <div
+            className={cn(
+              "h-full rounded-full bg-teal-400 transition-[width]",
+              !total && "w-full animate-pulse"
+            )}
+            style={total ? { width: `${(loaded / total) * 100}%` } : undefined}
+          />
+        </div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{label}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React from "react";
+import {
+  Measurement,
+  MeasurementTool,
+  PageCalibration,
+  PagePoint,
+  PageSize,
+  labelPosition,
+  measurementValue,
+} from "@/lib/measurement";
+
+interface MeasurementLayerProps {
+  pageSize: PageSize;
+  scale: number;
+  measurements: Measurement[];
+  calibration?: PageCalibration;
+  draftTool: MeasurementTool;
+  draftPoints: PagePoint[];
+  hoverPoint: PagePoint | null;
+}
+
+const toPointList = (points: PagePoint[]) =>
+  points.map((p) => `${p.x},${p.y}`).join(" ");
+
+export function MeasurementLayer({
+  pageSize,
+  scale,
+  measurements,
+  calibration,
+  draftTool,
+  draftPoints,
+  hoverPoint,
+}: MeasurementLayerProps) {
+  // Keep labels and handles a constant on-screen size regardless of zoom
+  const fontSize = 12 / scale;
+  const handleRadius = 3 / scale;
+
+  const renderShape = (
+    key: string,
+    kind: MeasurementTool,
+    points: PagePoint[],
+    isDraft: boolean
+  ) => {
+    if (points.length === 0) return null;
+    const closed = kind === "area" && points.length >= 3;
+    const color = kind === "calibrate" ? "#f59e0b" : "#0891b2";
+    const label =
+      points.length >= 2 && kind !== "calibrate"
+        ? measurementValue({ kind, points }, calibration)
+        : null;
+    const labelAt = points.length >= 2 ? labelPosition(points, closed) : null;
+
+    return (
+      <g key={key}>
+        {closed ? (
+          <polygon
+            points={toPointList(points)}
+            fill={color}
+            fillOpacity={0.15}
+            stroke={color}
+            strokeWidth={2}
+            strokeDasharray={isDraft ? "6 4" : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : (
+          <polyline
+            points={toPointList(points)}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            strokeDasharray={isDraft ? "6 4" : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={p.y}
+            r={handleRadius}
+            fill="white"
+            stroke={color}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {label && labelAt && (
+          <text
+            x={labelAt.x}
+            y={labelAt.y}
+            dy={-fontSize * 0.6}
+            fontSize={fontSize}
+            textAnchor="middle"
+            fill={color}
+            stroke="white"
+            strokeWidth={3}
+            paintOrder="stroke"
+            vectorEffect="non-scaling-stroke"
+            className="font-medium select-none"
+          >
+            {label}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const previewPoints =
+    draftPoints.length > 0 && hoverPoint
+      ? [...draftPoints, hoverPoint]
+      : draftPoints;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${pageSize.width} ${pageSize.height}`}
+      preserveAspectRatio="none"
+    >
+      {measurements.map((m) => renderShape(m.id, m.kind, m.points, false))}
+      {renderShape("draft", draftTool, previewPoints, true)}
+    </svg>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { Crosshair, Pentagon, Ruler, Spline, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  MEASUREMENT_UNITS,
+  MeasurementTool,
+  MeasurementUnit,
+  PageCalibration,
+  formatLength,
+} from "@/lib/measurement";
+
+interface MeasurementToolbarProps {
+  tool: MeasurementTool;
+  onToolChange: (tool: MeasurementTool) => void;
+  calibration?: PageCalibration;
+  // Length in PDF points of the reference line awaiting a real-world value
+  pendingCalibration: number | null;
+  onCalibrate: (knownLength: number, unit: MeasurementUnit) => void;
+  onCancelCalibration: () => void;
+  onClearPage: () => void;
+  canClear: boolean;
+}
+
+const TOOLS: { value: MeasurementTool; label: string; icon: typeof Ruler }[] = [
+  { value: "distance", label: "Distance", icon: Ruler },
+  {
+    value: "polyline",
+    label: "Polyline (double-click to finish)",
+    icon: Spline,
+  },
+  { value: "area", label: "Area (double-click to finish)", icon: Pentagon },
+  { value: "calibrate", label: "Calibrate scale", icon: Crosshair },
+];
+
+export function MeasurementToolbar({
+  tool,
+  onToolChange,
+  calibration,
+  pendingCalibration,
+  onCalibrate,
+  onCancelCalibration,
+  onClearPage,
+  canClear,
+}: MeasurementToolbarProps) {
+  const [knownLength, setKnownLength] = useState("");
+  const [unit, setUnit] = useState<MeasurementUnit>(calibration?.unit ?? "mm");
+
+  const parsedLength = parseFloat(knownLength);
+  const isValidLength = Number.isFinite(parsedLength) && parsedLength > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValidLength) {
+      onCalibrate(parsedLength, unit);
+      setKnownLength("");
+    }
+  };
+
+  return (
+    <div
+      className="absolute top-2 left-2 z-10 flex flex-col gap-2 rounded-md border bg-white/95 p-2 shadow-sm text-sm cursor-default"
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2">
+        <ToggleGroup
+          type="single"
+          value={tool}
+          onValueChange={(value) =>
+            value && onToolChange(value as MeasurementTool)
+          }
+        >
+          <TooltipProvider>
+            {TOOLS.map(({ value, label, icon: Icon }) => (
+              <Tooltip key={value}>
+                <TooltipTrigger asChild>
+                  <ToggleGroupItem value={value} size="sm" aria-label={label}>
+                    <Icon className="h-4 w-4" />
+                  </ToggleGroupItem>
+                </TooltipTrigger>
+                <TooltipContent>{label}</TooltipContent>
+              </Tooltip>
+            ))}
+          </TooltipProvider>
+        </ToggleGroup>
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={onClearPage}
+                disabled={!canClear}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Clear measurements on this page</TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {calibration
+          ? `Scale: 1 in on paper = ${formatLength(72, calibration)}`
+          : "Not calibrated (PDF points)"}
+      </div>
+      {pendingCalibration !== null && (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            autoFocus
+            value={knownLength}
+            onChange={(e) => setKnownLength(e.target.value)}
+            placeholder="Known length"
+            className="h-8 w-28 rounded-md border px-2"
+          />
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as MeasurementUnit)}
+            className="h-8 rounded-md border px-1"
+          >
+            {MEASUREMENT_UNITS.map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" disabled={!isValidLength}>
+            Set
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={onCancelCalibration}
+          >
+            Cancel
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  DestinationTarget,
+  OutlineNode,
+  loadOutline,
+  resolveDestination,
+} from "@/lib/pdf-outline";
+import { cn } from "@/lib/utils";
+
+interface OutlinePanelProps {
+  pdf: PDFDocumentProxy | null;
+  onNavigate: (target: DestinationTarget) => void;
+}
+
+interface OutlineItemProps {
+  node: OutlineNode;
+  depth: number;
+  onSelect: (node: OutlineNode) => void;
+}
+
+function OutlineItem({ node, depth, onSelect }: OutlineItemProps) {
+  const [isOpen, setIsOpen] = useState(node.initiallyOpen);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <li>
+      <div
+        className="flex items-center gap-1 pr-2 hover:bg-gray-100"
+        style={{ paddingLeft: depth * 12 + 4 }}
+      >
+        {hasChildren ? (
+          <button
+            type="button"
+            className="flex h-6 w-6 shrink-0 items-center justify-center rounded text-muted-foreground hover:text-foreground"
+            onClick={() => setIsOpen((open) => !open)}
+            aria-label={isOpen ? "Collapse" : "Expand"}
+            aria-expanded={isOpen}
+          >
+            {isOpen ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+          </button>
+        ) : (
+          <span className="w-6 shrink-0" />
+        )}
+        <button
+          type="button"
+          className={cn(
+            "flex-1 truncate py-1 text-left text-sm",
+            node.bold && "font-semibold",
+            node.italic && "italic"
+          )}
+          title={node.title}
+          onClick={() => onSelect(node)}
+        >
+          {node.title}
+        </button>
+      </div>
+      {hasChildren && isOpen && (
+        <ul>
+          {node.children.map((child) => (
+            <OutlineItem
+              key={child.id}
+              node={child}
+              depth={depth + 1}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function OutlinePanel({ pdf, onNavigate }: OutlinePanelProps) {
+  const [outline, setOutline] = useState<OutlineNode[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    setOutline(null);
+    setError(null);
+    loadOutline(pdf)
+      .then((nodes) => !cancelled && setOutline(nodes))
+      .catch((err) => {
+        console.error("Error loading outline:", err);
+        if (!cancelled) setError("Failed to load the table of contents");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  const handleSelect = async (node: OutlineNode) => {
+    if (node.url) {
+      window.open(node.url, "_blank", "noopener,noreferrer");
+      return;
+    }
+    if (!pdf) return;
+    try {
+      const target = await resolveDestination(pdf, node.dest);
+      if (target) onNavigate(target);
+    } catch (err) {
+      console.error("Error resolving outline destination:", err);
+    }
+  };
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-500">{error}</p>;
+  }
+  if (!outline) {
+    return <p className="p-4 text-sm text-muted-foreground">Loading…</p>;
+  }
+  if (outline.length === 0) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        This document has no table of contents.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="py-2">
+      {outline.map((node) => (
+        <OutlineItem
+          key={node.id}
+          node={node}
+          depth={0}
+          onSelect={handleSelect}
+        />
+      ))}
+    </ul>
+  );
+}
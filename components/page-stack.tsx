@@ -0,0 +1,46 @@
+import React from "react";
+import { PageSize } from "@/lib/measurement";
+import { PageStackLayout, pageOrigin } from "@/lib/page-layout";
+
+interface PageStackProps {
+  layout: PageStackLayout;
+  // Inclusive range of page indexes to render; the rest stay empty
+  range: [number, number];
+  renderPage: (pageNumber: number, size: PageSize) => React.ReactNode;
+}
+
+export function PageStack({ layout, range, renderPage }: PageStackProps) {
+  const [first] = range;
+  // The range may still describe the previous document for one render
+  const last = Math.min(range[1], layout.pageSizes.length - 1);
+  const slots = [];
+  for (let index = first; index <= last; index++) {
+    const pageNumber = index + 1;
+    const size = layout.pageSizes[index];
+    const origin = pageOrigin(layout, pageNumber);
+    slots.push(
+      // Sized from the page dimensions so the page has its space while rendering
+      <div
+        key={pageNumber}
+        className="absolute bg-white shadow-sm"
+        style={{
+          left: origin.x,
+          top: origin.y,
+          width: size.width,
+          height: size.height,
+        }}
+      >
+        {renderPage(pageNumber, size)}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative"
+      style={{ width: layout.width, height: layout.totalSize }}
+    >
+      {slots}
+    </div>
+  );
+}
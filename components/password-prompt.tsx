@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Why pdf.js is asking: no password was given yet, or the last one was wrong
+export type PasswordReason = "required" | "incorrect";
+
+interface PasswordPromptProps {
+  reason: PasswordReason;
+  onSubmit: (password: string) => void;
+}
+
+export function PasswordPrompt({ reason, onSubmit }: PasswordPromptProps) {
+  const [password, setPassword] = useState("");
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center">
+      <form
+        className="w-72 space-y-3 rounded-lg border bg-white p-4 shadow-lg cursor-default"
+        onPointerDown={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (password) onSubmit(password);
+        }}
+      >
+        <div className="flex items-center gap-2 font-medium">
+          <Lock className="h-4 w-4" />
+          Password required
+        </div>
+        <p
+          className={
+            reason === "incorrect"
+              ? "text-sm text-red-500"
+              : "text-sm text-muted-foreground"
+          }
+          role={reason === "incorrect" ? "alert" : undefined}
+        >
+          {reason === "incorrect"
+            ? "That password is incorrect. Try again."
+            : "This document is protected. Enter its password to open it."}
+        </p>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="h-8 w-full rounded-md border px-2 text-sm"
+          aria-label="Document password"
+          autoComplete="off"
+          autoFocus
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={!password}>
+            Open
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useEffect, useId, useState } from "react";
+import { Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatPageRange, parsePageRange } from "@/lib/page-ranges";
+import { PRINT_DPI } from "@/lib/pdf-print";
+
+type PageChoice = "all" | "current" | "range";
+
+export interface PrintRequest {
+  pageNumbers: number[];
+  includeAnnotations: boolean;
+}
+
+interface PrintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  numPages: number;
+  // Pages on screen, offered as "Current page"
+  currentPages: number[];
+  // Whether there are comments or measurements that could be printed
+  hasAnnotations: boolean;
+  onPrint: (request: PrintRequest) => Promise<void>;
+}
+
+export function PrintDialog({
+  open,
+  onOpenChange,
+  numPages,
+  currentPages,
+  hasAnnotations,
+  onPrint,
+}: PrintDialogProps) {
+  const [choice, setChoice] = useState<PageChoice>("all");
+  const [range, setRange] = useState("");
+  const [includeAnnotations, setIncludeAnnotations] = useState(true);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const id = useId();
+
+  useEffect(() => {
+    if (!open) return;
+    setChoice("all");
+    setRange(`1-${numPages}`);
+    setError(null);
+  }, [open, numPages]);
+
+  const rangePages = parsePageRange(range, numPages);
+  const pageNumbers =
+    choice === "all"
+      ? Array.from({ length: numPages }, (_, i) => i + 1)
+      : choice === "current"
+      ? currentPages
+      : rangePages;
+
+  const print = async () => {
+    if (!pageNumbers || pageNumbers.length === 0) return;
+    setIsPrinting(true);
+    setError(null);
+    try {
+      await onPrint({
+        pageNumbers,
+        includeAnnotations: hasAnnotations && includeAnnotations,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error printing document:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "The document could not be printed"
+      );
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !isPrinting && onOpenChange(next)}
+    >
+      <DialogContent
+        className="max-w-sm"
+        // Keep the viewer's shortcuts from seeing keys typed here
+        onKeyDown={(e) => e.stopPropagation()}
+      >
+        <DialogHeader>
+          <DialogTitle>Print</DialogTitle>
+          <DialogDescription>
+            Pages are prepared at {PRINT_DPI} DPI, which can take a moment for
+            long documents.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          id={`${id}-form`}
+          className="space-y-3 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault();
+            print();
+          }}
+        >
+          <fieldset className="space-y-2" disabled={isPrinting}>
+            <legend className="sr-only">Pages</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={`${id}-pages`}
+                checked={choice === "all"}
+                onChange={() => setChoice("all")}
+              />
+              All pages
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={`${id}-pages`}
+                checked={choice === "current"}
+                onChange={() => setChoice("current")}
+              />
+              {`${
+                currentPages.length > 1 ? "Current pages" : "Current page"
+              } (${formatPageRange(currentPages)})`}
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={`${id}-pages`}
+                checked={choice === "range"}
+                onChange={() => setChoice("range")}
+              />
+              Pages
+              <input
+                type="text"
+                value={range}
+                onChange={(e) => setRange(e.target.value)}
+                onFocus={() => setChoice("range")}
+                className="h-8 flex-1 rounded-md border px-2"
+                placeholder="e.g. 1-3, 5"
+                aria-label="Page range"
+                aria-invalid={choice === "range" && !rangePages}
+              />
+            </label>
+            {choice === "range" && !rangePages && (
+              <p className="text-xs text-red-500" role="alert">
+                Enter pages between 1 and {numPages}, like 1-3, 5.
+              </p>
+            )}
+          </fieldset>
+          {hasAnnotations && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeAnnotations}
+                onChange={(e) => setIncludeAnnotations(e.target.checked)}
+                disabled={isPrinting}
+              />
+              Include comments and measurements
+            </label>
+          )}
+          {error && (
+            <p className="text-xs text-red-500" role="alert">
+              {error}
+            </p>
+          )}
+        </form>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isPrinting}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            form={`${id}-form`}
+            disabled={isPrinting || !pageNumbers || pageNumbers.length === 0}
+          >
+            {isPrinting ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Printer className="mr-1 h-4 w-4" />
+            )}
+            {isPrinting ? "Preparing…" : "Print"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
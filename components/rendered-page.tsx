@@ -0,0 +1,40 @@
+import React from "react";
+import { LoadedDocument } from "@/lib/document-renderer";
+import { Rotation, rotatedSize, rotationTransform } from "@/lib/page-rotation";
+
+interface RenderedPageProps {
+  document: LoadedDocument;
+  pageNumber: number;
+  rotation: Rotation;
+  onRender: () => void;
+  // Overlays, drawn on the page as it is shown
+  children?: React.ReactNode;
+}
+
+// A page from a non-PDF renderer, standing in for react-pdf's <Page>
+export function RenderedPage({
+  document,
+  pageNumber,
+  rotation,
+  onRender,
+  children,
+}: RenderedPageProps) {
+  const size = document.pageSizes[pageNumber - 1];
+  const displaySize = rotatedSize(size, rotation);
+
+  return (
+    <div className="relative overflow-hidden bg-white" style={displaySize}>
+      <div
+        className="absolute left-0 top-0 origin-top-left"
+        style={{
+          width: size.width,
+          height: size.height,
+          transform: rotationTransform(size, rotation),
+        }}
+      >
+        {document.renderPage({ pageNumber, onRender })}
+      </div>
+      {children}
+    </div>
+  );
+}
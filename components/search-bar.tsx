@@ -0,0 +1,139 @@
+import React from "react";
+import {
+  CaseSensitive,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  WholeWord,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Toggle } from "@/components/ui/toggle";
+import { SearchOptions } from "@/lib/pdf-search";
+
+interface SearchBarProps {
+  inputRef: React.RefObject<HTMLInputElement>;
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  matchCount: number;
+  // Index of the highlighted match, or -1 when none is selected yet
+  currentIndex: number;
+  isSearching: boolean;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+export function SearchBar({
+  inputRef,
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  matchCount,
+  currentIndex,
+  isSearching,
+  onNext,
+  onPrevious,
+  onClose,
+}: SearchBarProps) {
+  const status = !query.trim()
+    ? ""
+    : matchCount === 0
+    ? isSearching
+      ? "Searching…"
+      : "No results"
+    : `${currentIndex === -1 ? "–" : currentIndex + 1} of ${matchCount}${
+        isSearching ? "+" : ""
+      }`;
+
+  return (
+    <div
+      className="absolute top-2 right-2 z-10 flex items-center gap-1 rounded-md border bg-white/95 p-1 shadow-sm cursor-default"
+      onPointerDown={(e) => e.stopPropagation()}
+      role="search"
+    >
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            if (e.shiftKey) {
+              onPrevious();
+            } else {
+              onNext();
+            }
+          } else if (e.key === "Escape") {
+            onClose();
+          }
+        }}
+        placeholder="Find in document"
+        aria-label="Find in document"
+        className="h-8 w-48 rounded-md border px-2 text-sm"
+      />
+      <span
+        className="flex w-20 items-center justify-center gap-1 text-xs text-muted-foreground"
+        aria-live="polite"
+      >
+        {isSearching && <Loader2 className="h-3 w-3 animate-spin" />}
+        {status}
+      </span>
+      <Toggle
+        size="sm"
+        pressed={options.caseSensitive}
+        onPressedChange={(caseSensitive) =>
+          onOptionsChange({ ...options, caseSensitive })
+        }
+        aria-label="Match case"
+        title="Match case"
+      >
+        <CaseSensitive className="h-4 w-4" />
+      </Toggle>
+      <Toggle
+        size="sm"
+        pressed={options.wholeWord}
+        onPressedChange={(wholeWord) =>
+          onOptionsChange({ ...options, wholeWord })
+        }
+        aria-label="Whole words"
+        title="Whole words"
+      >
+        <WholeWord className="h-4 w-4" />
+      </Toggle>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        aria-label="Previous match"
+      >
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onNext}
+        disabled={matchCount === 0}
+        aria-label="Next match"
+      >
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onClose}
+        aria-label="Close search"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React from "react";
+import { PageSize } from "@/lib/measurement";
+import { SearchMatch } from "@/lib/pdf-search";
+
+interface SearchHighlightLayerProps {
+  pageSize: PageSize;
+  matches: SearchMatch[];
+  currentMatch: SearchMatch | null;
+}
+
+export function SearchHighlightLayer({
+  pageSize,
+  matches,
+  currentMatch,
+}: SearchHighlightLayerProps) {
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none mix-blend-multiply"
+      viewBox={`0 0 ${pageSize.width} ${pageSize.height}`}
+      preserveAspectRatio="none"
+      aria-hidden
+    >
+      {matches.map((match) =>
+        match.rects.map((rect, i) => (
+          <rect
+            key={`${match.index}-${i}`}
+            x={rect.x}
+            y={rect.y}
+            width={rect.width}
+            height={rect.height}
+            fill={match === currentMatch ? "#fb923c" : "#fde047"}
+            fillOpacity={0.6}
+          />
+        ))
+      )}
+    </svg>
+  );
+}
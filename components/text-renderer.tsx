@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from "react";
+import "highlight.js/styles/github.css";
+import { DocumentRenderer, fetchSource } from "@/lib/document-renderer";
+import {
+  TEXT_FONT_SIZE,
+  TEXT_LINE_HEIGHT,
+  TEXT_PAGE_PADDING,
+  TEXT_PAGE_SIZE,
+  TextLine,
+  paginateText,
+  textLanguage,
+} from "@/lib/text-document";
+import { fileExtension } from "@/lib/utils";
+
+interface TextPageProps {
+  lines: TextLine[];
+  onRender: () => void;
+}
+
+function TextPage({ lines, onRender }: TextPageProps) {
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+
+  useEffect(() => {
+    onRenderRef.current();
+  }, [lines]);
+
+  return (
+    <pre
+      className="hljs m-0 overflow-hidden bg-white font-mono"
+      style={{
+        width: TEXT_PAGE_SIZE.width,
+        height: TEXT_PAGE_SIZE.height,
+        padding: TEXT_PAGE_PADDING,
+        fontSize: TEXT_FONT_SIZE,
+        lineHeight: `${TEXT_LINE_HEIGHT}px`,
+      }}
+    >
+      {lines.map((line, index) => (
+        <div key={index} style={{ height: TEXT_LINE_HEIGHT }}>
+          {line.map((segment, segmentIndex) => (
+            <span key={segmentIndex} className={segment.className}>
+              {segment.text}
+            </span>
+          ))}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+// Plain text, Markdown and source code, highlighted and laid out on pages
+export const textRenderer: DocumentRenderer = {
+  name: "Text",
+  mimeTypes: [
+    "text/*",
+    "application/json",
+    "application/javascript",
+    "application/xml",
+    "application/x-sh",
+  ],
+  extensions: [
+    "txt",
+    "log",
+    "md",
+    "markdown",
+    "json",
+    "js",
+    "jsx",
+    "ts",
+    "tsx",
+    "css",
+    "scss",
+    "html",
+    "xml",
+    "yaml",
+    "yml",
+    "py",
+    "rb",
+    "go",
+    "rs",
+    "java",
+    "kt",
+    "c",
+    "h",
+    "cpp",
+    "cs",
+    "php",
+    "sh",
+    "sql",
+    "ini",
+  ],
+  load: async (source, signal, onProgress) => {
+    const response = await fetchSource(source, signal, onProgress);
+    const text = await response.text();
+    const pages = paginateText(
+      text,
+      textLanguage(fileExtension(source.url), source.mimeType)
+    );
+    return {
+      numPages: pages.length,
+      pageSizes: pages.map(() => TEXT_PAGE_SIZE),
+      renderPage: ({ pageNumber, onRender }) => (
+        <TextPage lines={pages[pageNumber - 1]} onRender={onRender} />
+      ),
+    };
+  },
+};
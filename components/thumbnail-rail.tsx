@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Page } from "react-pdf";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+import { LoadedDocument } from "@/lib/document-renderer";
+import {
+  PageGeometry,
+  PageRotations,
+  Rotation,
+  rotateBy,
+  rotatedSize,
+} from "@/lib/page-rotation";
+import { RenderedPage } from "@/components/rendered-page";
+import { layoutItems, visibleRange } from "@/lib/virtualization";
+import { cn } from "@/lib/utils";
+
+interface ThumbnailRailProps {
+  pdf: PDFDocumentProxy | null;
+  // Drawn instead of the PDF for files opened by another renderer
+  document?: LoadedDocument | null;
+  numPages: number;
+  pageSizes: PageGeometry[] | null;
+  // The reader's rotations, on top of the ones the pages declare
+  rotations: PageRotations;
+  currentPage: number;
+  onSelectPage: (pageNumber: number) => void;
+}
+
+const THUMBNAIL_WIDTH = 112;
+const LABEL_HEIGHT = 20;
+const ITEM_PADDING = 8;
+const ITEM_GAP = 8;
+const OVERSCAN = 2;
+// Used until the real page sizes are known
+const DEFAULT_ASPECT_RATIO = 1.294;
+
+const ignoreRender = () => {};
+
+export function ThumbnailRail({
+  pdf,
+  document,
+  numPages,
+  pageSizes,
+  rotations,
+  currentPage,
+  onSelectPage,
+}: ThumbnailRailProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // Like the viewer, the reader's rotations wait for the declared ones
+  const rotationOf = (pageNumber: number): Rotation =>
+    pageSizes ? rotations[pageNumber] ?? 0 : 0;
+
+  const layout = useMemo(() => {
+    const sizes = Array.from({ length: numPages }, (_, i) => {
+      const pageSize = pageSizes?.[i];
+      const size = pageSize && rotatedSize(pageSize, rotations[i + 1] ?? 0);
+      const aspectRatio = size
+        ? size.height / size.width
+        : DEFAULT_ASPECT_RATIO;
+      return THUMBNAIL_WIDTH * aspectRatio + LABEL_HEIGHT + ITEM_PADDING * 2;
+    });
+    return layoutItems(sizes, ITEM_GAP);
+  }, [numPages, pageSizes, rotations]);
+
+  const [first, last] = visibleRange(
+    layout,
+    viewport.top,
+    viewport.top + viewport.height,
+    OVERSCAN
+  );
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const update = () =>
+      setViewport({ top: element.scrollTop, height: element.clientHeight });
+    update();
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(element);
+    element.addEventListener("scroll", update, { passive: true });
+    return () => {
+      resizeObserver.disconnect();
+      element.removeEventListener("scroll", update);
+    };
+  }, []);
+
+  // Keep the current page's thumbnail in view
+  useEffect(() => {
+    const element = scrollRef.current;
+    const index = currentPage - 1;
+    if (!element || index < 0 || index >= layout.offsets.length) return;
+    const top = layout.offsets[index];
+    const bottom = top + layout.sizes[index];
+    if (top < element.scrollTop) {
+      element.scrollTop = top;
+    } else if (bottom > element.scrollTop + element.clientHeight) {
+      element.scrollTop = bottom - element.clientHeight;
+    }
+  }, [currentPage, layout]);
+
+  const items = [];
+  for (let index = first; index <= last; index++) {
+    const pageNumber = index + 1;
+    const isCurrent = pageNumber === currentPage;
+    const rotation = rotationOf(pageNumber);
+    const declared = pageSizes?.[index]?.rotation;
+    items.push(
+      <div
+        key={pageNumber}
+        className="absolute inset-x-0 flex justify-center"
+        style={{ top: layout.offsets[index], height: layout.sizes[index] }}
+      >
+        <button
+          type="button"
+          className={cn(
+            "flex flex-col items-center rounded-md p-2 hover:bg-gray-100",
+            isCurrent && "bg-cyan-50 hover:bg-cyan-50"
+          )}
+          onClick={() => onSelectPage(pageNumber)}
+          aria-label={`Page ${pageNumber}`}
+          aria-current={isCurrent ? "page" : undefined}
+        >
+          <div
+            className={cn(
+              "overflow-hidden bg-white shadow-sm ring-1",
+              isCurrent ? "ring-2 ring-cyan-500" : "ring-gray-200"
+            )}
+            style={{
+              width: THUMBNAIL_WIDTH,
+              height: layout.sizes[index] - LABEL_HEIGHT - ITEM_PADDING * 2,
+            }}
+          >
+            {pdf && (
+              <Page
+                pdf={pdf}
+                pageNumber={pageNumber}
+                width={THUMBNAIL_WIDTH}
+                rotate={
+                  declared === undefined
+                    ? undefined
+                    : rotateBy(declared, rotation)
+                }
+                renderTextLayer={false}
+                renderAnnotationLayer={false}
+                loading={null}
+              />
+            )}
+            {document && (
+              <div
+                className="origin-top-left"
+                style={{
+                  transform: `scale(${
+                    THUMBNAIL_WIDTH /
+                    rotatedSize(document.pageSizes[index], rotation).width
+                  })`,
+                }}
+              >
+                <RenderedPage
+                  document={document}
+                  pageNumber={pageNumber}
+                  rotation={rotation}
+                  onRender={ignoreRender}
+                />
+              </div>
+            )}
+          </div>
+          <span
+            className={cn(
+              "mt-1 text-xs",
+              isCurrent ? "font-medium text-cyan-700" : "text-muted-foreground"
+            )}
+          >
+            {pageNumber}
+          </span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <nav
+      className="w-40 shrink-0 border-r bg-white flex flex-col"
+      aria-label="Page thumbnails"
+    >
+      <div ref={scrollRef} className="flex-1 overflow-y-auto">
+        <div className="relative" style={{ height: layout.totalSize }}>
+          {items}
+        </div>
+      </div>
+    </nav>
+  );
+}
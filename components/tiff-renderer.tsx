@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from "react";
+import * as UTIF from "utif";
+import { DocumentRenderer, fetchSource } from "@/lib/document-renderer";
+
+// TIFF tags holding the image width and height
+const IMAGE_WIDTH_TAG = "t256";
+const IMAGE_LENGTH_TAG = "t257";
+
+const tagValue = (ifd: UTIF.IFD, tag: string) => {
+  const value = ifd[tag];
+  return Array.isArray(value) ? Number(value[0]) : 0;
+};
+
+interface TiffPageProps {
+  buffer: ArrayBuffer;
+  ifd: UTIF.IFD;
+  width: number;
+  height: number;
+  onRender: () => void;
+}
+
+// Pages are decoded only once they are rendered, since the viewer keeps just
+// the pages near the viewport mounted
+function TiffPage({ buffer, ifd, width, height, onRender }: TiffPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    try {
+      UTIF.decodeImage(buffer, ifd);
+      const pixels = new Uint8ClampedArray(UTIF.toRGBA8(ifd));
+      context.putImageData(new ImageData(pixels, width, height), 0, 0);
+      onRenderRef.current();
+    } catch (error) {
+      console.error("Error decoding TIFF page:", error);
+    }
+  }, [buffer, ifd, width, height]);
+
+  return (
+    <canvas ref={canvasRef} width={width} height={height} className="block" />
+  );
+}
+
+// Multi-page TIFFs, such as scanned documents and faxes
+export const tiffRenderer: DocumentRenderer = {
+  name: "TIFF",
+  mimeTypes: ["image/tiff", "image/tiff-fx"],
+  extensions: ["tif", "tiff"],
+  load: async (source, signal, onProgress) => {
+    const response = await fetchSource(source, signal, onProgress);
+    const buffer = await response.arrayBuffer();
+    const pages = UTIF.decode(buffer).filter(
+      (ifd) =>
+        tagValue(ifd, IMAGE_WIDTH_TAG) > 0 &&
+        tagValue(ifd, IMAGE_LENGTH_TAG) > 0
+    );
+    if (pages.length === 0) throw new Error("The TIFF file has no images");
+
+    const pageSizes = pages.map((ifd) => ({
+      width: tagValue(ifd, IMAGE_WIDTH_TAG),
+      height: tagValue(ifd, IMAGE_LENGTH_TAG),
+    }));
+    return {
+      numPages: pages.length,
+      pageSizes,
+      renderPage: ({ pageNumber, onRender }) => (
+        <TiffPage
+          buffer={buffer}
+          ifd={pages[pageNumber - 1]}
+          width={pageSizes[pageNumber - 1].width}
+          height={pageSizes[pageNumber - 1].height}
+          onRender={onRender}
+        />
+      ),
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+interface ToolbarButtonProps {
+  label: string;
+  // Shown on hover; the label when omitted
+  tooltip?: string;
+  onClick: () => void;
+  disabled?: boolean;
+  // For buttons that toggle something open or on
+  pressed?: boolean;
+  keyShortcuts?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Icon button with a tooltip, as used across the viewer's toolbar
+export function ToolbarButton({
+  label,
+  tooltip = label,
+  onClick,
+  disabled,
+  pressed,
+  keyShortcuts,
+  className,
+  children,
+}: ToolbarButtonProps) {
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={className}
+            onClick={onClick}
+            disabled={disabled}
+            aria-pressed={pressed}
+            aria-label={label}
+            aria-keyshortcuts={keyShortcuts}
+          >
+            {children}
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>{tooltip}</TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
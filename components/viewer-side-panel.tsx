@@ -0,0 +1,42 @@
+import React from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ViewerSidePanelProps {
+  title: string;
+  onClose: () => void;
+  // Extra controls rendered next to the close button
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export function ViewerSidePanel({
+  title,
+  onClose,
+  actions,
+  children,
+}: ViewerSidePanelProps) {
+  return (
+    <aside
+      className="w-72 shrink-0 border-r bg-white flex flex-col overflow-hidden"
+      aria-label={title}
+    >
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <h2 className="text-sm font-semibold truncate">{title}</h2>
+        <div className="flex items-center">
+          {actions}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onClose}
+            aria-label={`Close ${title}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto">{children}</div>
+    </aside>
+  );
+}
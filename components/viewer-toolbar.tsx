@@ -0,0 +1,543 @@
+import React from "react";
+import {
+  BookmarkPlus,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  GalleryVertical,
+  Keyboard,
+  Loader2,
+  Maximize,
+  MessageSquare,
+  Move,
+  PanelLeft,
+  Printer,
+  RotateCcw,
+  RotateCw,
+  Ruler,
+  Search,
+  TextCursor,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ToolbarButton } from "@/components/toolbar-button";
+import { ZoomCombobox } from "@/components/zoom-combobox";
+import { cn } from "@/lib/utils";
+import { Bookmark } from "@/lib/bookmarks";
+import { ShortcutAction, ariaKeyShortcut } from "@/lib/keyboard-shortcuts";
+import { VIEW_MODE_LABELS, ViewMode } from "@/lib/page-layout";
+import { ExportMode } from "@/lib/pdf-export";
+import {
+  PointerMode,
+  ToolbarFeature,
+  ToolbarOptions,
+  isFeatureShown,
+} from "@/lib/viewer-api";
+import { FitMode } from "@/lib/zoom";
+
+interface ViewerToolbarProps {
+  options?: ToolbarOptions;
+  // Whether a document is shown, without an error
+  isReady: boolean;
+  hasError: boolean;
+  // Whether the document is a PDF, which search, print and export need
+  hasPdf: boolean;
+
+  isThumbnailRailOpen: boolean;
+  onToggleThumbnails: () => void;
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  // Pages side by side, which the rotate menu names as one or several
+  visiblePageCount: number;
+  onRotateVisible: (degrees: number) => void;
+  onRotateAll: (degrees: number) => void;
+
+  pageLabel: string;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  onPreviousPage: () => void;
+  onNextPage: () => void;
+
+  scale: number;
+  fitMode: FitMode | null;
+  canZoomIn: boolean;
+  canZoomOut: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onZoomTo: (scale: number) => void;
+  onFit: (mode: FitMode) => void;
+  onResetView: () => void;
+
+  mode: PointerMode;
+  onModeChange: (mode: PointerMode) => void;
+  // Save controls, shown after the pointer modes
+  saveControls: React.ReactNode;
+
+  isExporting: boolean;
+  exportError: string | null;
+  // Whether there are comments or measurements to put in a copy
+  hasMarkup: boolean;
+  onDownloadOriginal: () => void;
+  onDownloadWithMarkup: (mode: ExportMode) => void;
+  onPrint: () => void;
+  onSearch: () => void;
+  isShortcutsOpen: boolean;
+  onToggleShortcuts: () => void;
+
+  bookmarks: Bookmark[];
+  onBookmarkView: () => void;
+  onSelectBookmark: (bookmark: Bookmark) => void;
+  onShowOutline: () => void;
+  onManageBookmarks: () => void;
+  onShowAnnotations: () => void;
+}
+
+interface PointerModeItem {
+  value: PointerMode;
+  label: string;
+  key: string;
+  icon: typeof Move;
+  shortcut: ShortcutAction;
+  // Shown only while this feature is
+  feature?: ToolbarFeature;
+}
+
+const POINTER_MODES: PointerModeItem[] = [
+  {
+    value: "drag",
+    label: "Drag",
+    key: "H",
+    icon: Move,
+    shortcut: "dragMode",
+  },
+  {
+    value: "select",
+    label: "Select text",
+    key: "T",
+    icon: TextCursor,
+    shortcut: "selectMode",
+  },
+  {
+    value: "ruler",
+    label: "Measure distance",
+    key: "M",
+    icon: Ruler,
+    shortcut: "rulerMode",
+    feature: "measure",
+  },
+  {
+    value: "comment",
+    label: "Comment",
+    key: "C",
+    icon: MessageSquare,
+    shortcut: "commentMode",
+    feature: "comment",
+  },
+];
+
+interface ToolbarMenuProps {
+  tooltip: string;
+  // The button that opens the menu
+  trigger: React.ReactElement;
+  align: "start" | "end";
+  children: React.ReactNode;
+}
+
+// Dropdown menu opened from the toolbar, opening upwards
+function ToolbarMenu({ tooltip, trigger, align, children }: ToolbarMenuProps) {
+  return (
+    <DropdownMenu>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>{trigger}</DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent>{tooltip}</TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+      <DropdownMenuContent align={align} side="top">
+        {children}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export function ViewerToolbar({
+  options,
+  isReady,
+  hasError,
+  hasPdf,
+  isThumbnailRailOpen,
+  onToggleThumbnails,
+  viewMode,
+  onViewModeChange,
+  visiblePageCount,
+  onRotateVisible,
+  onRotateAll,
+  pageLabel,
+  canGoBack,
+  canGoForward,
+  onPreviousPage,
+  onNextPage,
+  scale,
+  fitMode,
+  canZoomIn,
+  canZoomOut,
+  onZoomIn,
+  onZoomOut,
+  onZoomTo,
+  onFit,
+  onResetView,
+  mode,
+  onModeChange,
+  saveControls,
+  isExporting,
+  exportError,
+  hasMarkup,
+  onDownloadOriginal,
+  onDownloadWithMarkup,
+  onPrint,
+  onSearch,
+  isShortcutsOpen,
+  onToggleShortcuts,
+  bookmarks,
+  onBookmarkView,
+  onSelectBookmark,
+  onShowOutline,
+  onManageBookmarks,
+  onShowAnnotations,
+}: ViewerToolbarProps) {
+  const isShown = (feature: ToolbarFeature) => isFeatureShown(options, feature);
+  const rotateLabel = visiblePageCount > 1 ? "Rotate pages" : "Rotate page";
+
+  return (
+    <div className="flex justify-between items-center p-4 bg-gray-100">
+      <div className="flex items-center space-x-2">
+        {options?.start}
+        {isShown("thumbnails") && (
+          <ToolbarButton
+            label="Thumbnails"
+            tooltip={
+              isThumbnailRailOpen ? "Hide thumbnails" : "Show thumbnails"
+            }
+            onClick={onToggleThumbnails}
+            pressed={isThumbnailRailOpen}
+          >
+            <PanelLeft className="h-4 w-4" />
+          </ToolbarButton>
+        )}
+        {isShown("layout") && (
+          <ToolbarMenu
+            tooltip="Page layout"
+            align="start"
+            trigger={
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={hasError}
+                aria-label="Page layout"
+              >
+                <GalleryVertical className="h-4 w-4" />
+              </Button>
+            }
+          >
+            <DropdownMenuRadioGroup
+              value={viewMode}
+              onValueChange={(value) => onViewModeChange(value as ViewMode)}
+            >
+              {Object.entries(VIEW_MODE_LABELS).map(([value, label]) => (
+                <DropdownMenuRadioItem key={value} value={value}>
+                  {label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </ToolbarMenu>
+        )}
+        {isShown("rotate") && (
+          <ToolbarMenu
+            tooltip="Rotate"
+            align="start"
+            trigger={
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!isReady}
+                aria-label="Rotate"
+              >
+                <RotateCw className="h-4 w-4" />
+              </Button>
+            }
+          >
+            <DropdownMenuItem onSelect={() => onRotateVisible(90)}>
+              <RotateCw className="h-4 w-4" />
+              {rotateLabel} clockwise
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onRotateVisible(-90)}>
+              <RotateCcw className="h-4 w-4" />
+              {rotateLabel} counterclockwise
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onRotateAll(90)}>
+              <RotateCw className="h-4 w-4" />
+              Rotate all pages clockwise
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onRotateAll(-90)}>
+              <RotateCcw className="h-4 w-4" />
+              Rotate all pages counterclockwise
+            </DropdownMenuItem>
+          </ToolbarMenu>
+        )}
+        {isShown("pageNavigation") && (
+          <>
+            <ToolbarButton
+              label="Previous page"
+              tooltip="Previous page (Page Up)"
+              onClick={onPreviousPage}
+              disabled={!canGoBack}
+              keyShortcuts={ariaKeyShortcut("previousPage")}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </ToolbarButton>
+            <span className="text-sm">{pageLabel}</span>
+            <ToolbarButton
+              label="Next page"
+              tooltip="Next page (Page Down)"
+              onClick={onNextPage}
+              disabled={!canGoForward}
+              keyShortcuts={ariaKeyShortcut("nextPage")}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </ToolbarButton>
+          </>
+        )}
+      </div>
+      <div className="flex-1 flex justify-center items-center space-x-4">
+        {isShown("zoom") && (
+          <div className="flex items-center space-x-2">
+            <ToolbarButton
+              label="Zoom out"
+              tooltip="Zoom out (-)"
+              onClick={onZoomOut}
+              disabled={!canZoomOut}
+              keyShortcuts={ariaKeyShortcut("zoomOut")}
+            >
+              <ZoomOut className="h-4 w-4" />
+            </ToolbarButton>
+            <ZoomCombobox
+              scale={scale}
+              fitMode={fitMode}
+              disabled={!isReady}
+              onZoomTo={onZoomTo}
+              onFit={onFit}
+            />
+            <ToolbarButton
+              label="Zoom in"
+              tooltip="Zoom in (+)"
+              onClick={onZoomIn}
+              disabled={!canZoomIn}
+              keyShortcuts={ariaKeyShortcut("zoomIn")}
+            >
+              <ZoomIn className="h-4 w-4" />
+            </ToolbarButton>
+            <ToolbarButton
+              label="Reset view"
+              tooltip="Reset view (0)"
+              onClick={onResetView}
+              keyShortcuts={ariaKeyShortcut("resetZoom")}
+            >
+              <Maximize className="h-4 w-4" />
+            </ToolbarButton>
+          </div>
+        )}
+        {isShown("pointerModes") && (
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) =>
+              value && onModeChange(value as PointerMode)
+            }
+            className="border rounded-md"
+            aria-label="Pointer mode"
+          >
+            {POINTER_MODES.filter(
+              (item) => !item.feature || isShown(item.feature)
+            ).map(({ value, label, key, icon: Icon, shortcut }) => (
+              <TooltipProvider key={value}>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <ToggleGroupItem
+                      value={value}
+                      className="px-3 py-2 relative"
+                      aria-label={label}
+                      aria-keyshortcuts={ariaKeyShortcut(shortcut)}
+                    >
+                      <div
+                        className={cn(
+                          "absolute inset-0 rounded-full transition-colors",
+                          mode === value ? "bg-cyan-500" : "bg-transparent"
+                        )}
+                      />
+                      <Icon
+                        className={cn(
+                          "h-4 w-4 relative z-10",
+                          mode === value ? "text-white" : "text-foreground"
+                        )}
+                      />
+                    </ToggleGroupItem>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {label} ({key})
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            ))}
+          </ToggleGroup>
+        )}
+        {isShown("save") && saveControls}
+      </div>
+      <div className="flex items-center space-x-2">
+        {options?.end}
+        {isShown("download") && (
+          <>
+            {exportError && (
+              <span
+                className="text-xs text-red-500 max-w-56 truncate"
+                title={exportError}
+                role="alert"
+              >
+                {exportError}
+              </span>
+            )}
+            <ToolbarMenu
+              tooltip="Download"
+              align="end"
+              trigger={
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={!isReady || isExporting}
+                  aria-label="Download"
+                >
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4" />
+                  )}
+                </Button>
+              }
+            >
+              <DropdownMenuItem onSelect={onDownloadOriginal}>
+                Original file
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                disabled={!hasPdf || !hasMarkup}
+                onSelect={() => onDownloadWithMarkup("annotations")}
+              >
+                PDF with editable annotations
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={!hasPdf || !hasMarkup}
+                onSelect={() => onDownloadWithMarkup("flatten")}
+              >
+                PDF with markup flattened
+              </DropdownMenuItem>
+            </ToolbarMenu>
+          </>
+        )}
+        {isShown("print") && (
+          <ToolbarButton
+            label="Print"
+            tooltip="Print (Ctrl+P)"
+            onClick={onPrint}
+            disabled={!isReady || !hasPdf}
+            keyShortcuts="Control+P Meta+P"
+          >
+            <Printer className="h-4 w-4" />
+          </ToolbarButton>
+        )}
+        {isShown("search") && (
+          <ToolbarButton
+            label="Find in document"
+            tooltip="Find in document (Ctrl+F)"
+            onClick={onSearch}
+            disabled={!isReady || !hasPdf}
+            keyShortcuts="Control+F Meta+F"
+          >
+            <Search className="h-4 w-4" />
+          </ToolbarButton>
+        )}
+        {isShown("shortcuts") && (
+          <ToolbarButton
+            label="Keyboard shortcuts"
+            tooltip="Keyboard shortcuts (?)"
+            onClick={onToggleShortcuts}
+            pressed={isShortcutsOpen}
+            keyShortcuts={ariaKeyShortcut("toggleShortcuts")}
+          >
+            <Keyboard className="h-4 w-4" />
+          </ToolbarButton>
+        )}
+        {isShown("goTo") && (
+          <ToolbarMenu
+            tooltip="Jump to specific sections"
+            align="end"
+            trigger={<Button variant="ghost">Go to</Button>}
+          >
+            <DropdownMenuItem disabled={!hasPdf} onSelect={onShowOutline}>
+              Table of Contents
+            </DropdownMenuItem>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Bookmarks</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+                <DropdownMenuItem onSelect={onBookmarkView} disabled={!isReady}>
+                  <BookmarkPlus className="h-4 w-4" />
+                  Bookmark this view
+                </DropdownMenuItem>
+                {bookmarks.length > 0 && <DropdownMenuSeparator />}
+                {bookmarks.map((bookmark) => (
+                  <DropdownMenuItem
+                    key={bookmark.id}
+                    onSelect={() => onSelectBookmark(bookmark)}
+                  >
+                    <span className="flex-1 truncate">{bookmark.label}</span>
+                    <span className="text-xs text-muted-foreground">
+                      p. {bookmark.pageNumber}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={onManageBookmarks}>
+                  Manage bookmarks…
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem onSelect={onShowAnnotations}>
+              Annotations
+            </DropdownMenuItem>
+          </ToolbarMenu>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import {
+  ACTUAL_SIZE_SCALE,
+  FIT_MODE_LABELS,
+  FitMode,
+  ZOOM_PRESETS,
+  parseZoomInput,
+  percentToScale,
+  scaleToPercent,
+} from "@/lib/zoom";
+
+interface ZoomComboboxProps {
+  scale: number;
+  // The fit preset the current zoom follows, if any
+  fitMode: FitMode | null;
+  disabled?: boolean;
+  onZoomTo: (scale: number) => void;
+  onFit: (mode: FitMode) => void;
+}
+
+export function ZoomCombobox({
+  scale,
+  fitMode,
+  disabled,
+  onZoomTo,
+  onFit,
+}: ZoomComboboxProps) {
+  // Text being typed; the current zoom is shown while this is null
+  const [draft, setDraft] = useState<string | null>(null);
+  const current = `${scaleToPercent(scale)}%`;
+
+  const commit = () => {
+    if (draft === null) return;
+    const percent = parseZoomInput(draft);
+    if (percent !== null) onZoomTo(percentToScale(percent));
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center rounded-md border bg-white">
+      <input
+        type="text"
+        inputMode="decimal"
+        value={draft ?? current}
+        onChange={(e) => setDraft(e.target.value)}
+        onFocus={(e) => e.target.select()}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            commit();
+          } else if (e.key === "Escape") {
+            setDraft(null);
+          }
+        }}
+        disabled={disabled}
+        aria-label="Zoom level"
+        className="h-8 w-14 rounded-l-md bg-transparent px-2 text-center text-sm"
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-6 rounded-l-none"
+            disabled={disabled}
+            aria-label="Zoom presets"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" side="top">
+          <DropdownMenuRadioGroup
+            value={fitMode ?? ""}
+            onValueChange={(value) => onFit(value as FitMode)}
+          >
+            {Object.entries(FIT_MODE_LABELS).map(([value, label]) => (
+              <DropdownMenuRadioItem key={value} value={value}>
+                {label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuItem
+            className="pl-8"
+            onSelect={() => onZoomTo(ACTUAL_SIZE_SCALE)}
+          >
+            Actual size
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {ZOOM_PRESETS.map((percent) => (
+            <DropdownMenuItem
+              key={percent}
+              className="pl-8"
+              onSelect={() => onZoomTo(percentToScale(percent))}
+            >
+              {percent}%
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
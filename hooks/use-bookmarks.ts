@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import {
+  Bookmark,
+  loadBookmarks,
+  moveItem,
+  storeBookmarks,
+} from "@/lib/bookmarks";
+import { createId } from "@/lib/utils";
+
+// Bookmarks live in localStorage per fileUrl so they outlive the modal
+export function useBookmarks(fileUrl: string) {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [loadedUrl, setLoadedUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBookmarks(loadBookmarks(fileUrl));
+    setLoadedUrl(fileUrl);
+  }, [fileUrl]);
+
+  useEffect(() => {
+    // Don't write the previous document's list under a new url
+    if (loadedUrl === fileUrl) {
+      storeBookmarks(fileUrl, bookmarks);
+    }
+  }, [bookmarks, fileUrl, loadedUrl]);
+
+  const addBookmark = (bookmark: Omit<Bookmark, "id" | "createdAt">) =>
+    setBookmarks((prev) => [
+      ...prev,
+      { ...bookmark, id: createId(), createdAt: new Date().toISOString() },
+    ]);
+
+  const renameBookmark = (id: string, label: string) =>
+    setBookmarks((prev) =>
+      prev.map((b) => (b.id === id ? { ...b, label } : b))
+    );
+
+  const moveBookmark = (id: string, offset: number) =>
+    setBookmarks((prev) => {
+      const index = prev.findIndex((b) => b.id === id);
+      return index === -1 ? prev : moveItem(prev, index, index + offset);
+    });
+
+  const removeBookmark = (id: string) =>
+    setBookmarks((prev) => prev.filter((b) => b.id !== id));
+
+  return {
+    bookmarks,
+    addBookmark,
+    renameBookmark,
+    moveBookmark,
+    removeBookmark,
+  };
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { PrintRequest } from "@/components/print-dialog";
+import { DocumentAnnotations } from "@/lib/annotations";
+import { httpError } from "@/lib/load-errors";
+import { ExportMode, exportAnnotatedPdf } from "@/lib/pdf-export";
+import { printPages, printPdfData } from "@/lib/pdf-print";
+import { Rotation } from "@/lib/page-rotation";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+import { downloadBlob, fileName } from "@/lib/utils";
+
+interface UseDocumentExportOptions {
+  fileUrl: string;
+  // Null for files shown by a renderer rather than pdf.js
+  pdfDocument: PDFDocumentProxy | null;
+  annotations: DocumentAnnotations;
+  // The reader's rotation of each page, which printing keeps
+  rotationOf: (pageNumber: number) => Rotation;
+}
+
+// Downloads of the original file or a copy carrying the markup, and printing
+export function useDocumentExport({
+  fileUrl,
+  pdfDocument,
+  annotations,
+  rotationOf,
+}: UseDocumentExportOptions) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // An error about the previous file no longer applies
+  useEffect(() => {
+    setExportError(null);
+  }, [fileUrl]);
+
+  // The original name, with a suffix for copies that carry our markup
+  const downloadName = (suffix = "") => {
+    const name = fileName(fileUrl) || "document.pdf";
+    if (!suffix) return name;
+    const dot = name.lastIndexOf(".");
+    return dot > 0
+      ? `${name.slice(0, dot)}${suffix}${name.slice(dot)}`
+      : `${name}${suffix}.pdf`;
+  };
+
+  const runFileAction = async (action: () => Promise<void>) => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error exporting document:", error);
+      setExportError(
+        error instanceof Error ? error.message : "The file could not be saved"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // PDFs come from pdf.js, which has the bytes or fetches what's missing;
+  // other files are fetched again, usually from the browser's cache
+  const downloadOriginal = () =>
+    runFileAction(async () => {
+      let blob: Blob;
+      if (pdfDocument) {
+        const data = await pdfDocument.getData();
+        blob = new Blob([data], { type: "application/pdf" });
+      } else {
+        const response = await fetch(fileUrl);
+        if (!response.ok) throw httpError(response.status);
+        blob = await response.blob();
+      }
+      downloadBlob(blob, downloadName());
+    });
+
+  const downloadWithMarkup = (mode: ExportMode) =>
+    runFileAction(async () => {
+      if (!pdfDocument) return;
+      const data = await exportAnnotatedPdf(pdfDocument, annotations, mode);
+      downloadBlob(
+        new Blob([data], { type: "application/pdf" }),
+        downloadName(mode === "flatten" ? "-flattened" : "-annotated")
+      );
+    });
+
+  // Markup is printed from a flattened copy, which shows the comments' text
+  // rather than note icons
+  const printDocument = async ({
+    pageNumbers,
+    includeAnnotations,
+  }: PrintRequest) => {
+    if (!pdfDocument) return;
+    if (includeAnnotations) {
+      const data = await exportAnnotatedPdf(
+        pdfDocument,
+        annotations,
+        "flatten"
+      );
+      await printPdfData(data, pageNumbers, rotationOf);
+    } else {
+      await printPages(pdfDocument, pageNumbers, rotationOf);
+    }
+  };
+
+  return {
+    isExporting,
+    exportError,
+    downloadOriginal,
+    downloadWithMarkup,
+    printDocument,
+  };
+}
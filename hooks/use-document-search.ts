@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  PageText,
+  SearchMatch,
+  SearchOptions,
+  buildSearchPattern,
+  extractPageText,
+  findInPage,
+} from "@/lib/pdf-search";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Searches every page of the document, reusing extracted page text between
+// queries. Matches stream in page by page.
+export function useDocumentSearch(
+  pdf: PDFDocumentProxy | null,
+  query: string,
+  options: SearchOptions
+) {
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const textCacheRef = useRef<{
+    pdf: PDFDocumentProxy | null;
+    pages: Map<number, Promise<PageText>>;
+  }>({ pdf: null, pages: new Map() });
+
+  const { caseSensitive, wholeWord } = options;
+
+  useEffect(() => {
+    if (textCacheRef.current.pdf !== pdf) {
+      textCacheRef.current = { pdf, pages: new Map() };
+    }
+    if (!pdf || !query.trim()) {
+      setMatches([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const cache = textCacheRef.current.pages;
+    const pattern = buildSearchPattern(query, { caseSensitive, wholeWord });
+
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      setMatches([]);
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        if (cancelled) return;
+        let pageText = cache.get(pageNumber);
+        if (!pageText) {
+          pageText = extractPageText(pdf, pageNumber);
+          cache.set(pageNumber, pageText);
+        }
+        try {
+          const pageMatches = findInPage(await pageText, pageNumber, pattern);
+          if (!cancelled && pageMatches.length > 0) {
+            setMatches((prev) => [...prev, ...pageMatches]);
+          }
+        } catch (error) {
+          cache.delete(pageNumber);
+          console.error(`Error searching page ${pageNumber}:`, error);
+        }
+      }
+      if (!cancelled) setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [pdf, query, caseSensitive, wholeWord]);
+
+  return { matches, isSearching };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import {
+  EmbeddedAnnotation,
+  loadEmbeddedAnnotations,
+} from "@/lib/pdf-annotations";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+
+// Reads annotations embedded in the PDF, only once something needs them since
+// it walks every page of the document
+export function useEmbeddedAnnotations(
+  pdf: PDFDocumentProxy | null,
+  enabled: boolean
+) {
+  const [annotations, setAnnotations] = useState<EmbeddedAnnotation[]>([]);
+  const [loadedFor, setLoadedFor] = useState<PDFDocumentProxy | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!pdf) {
+      setAnnotations([]);
+      setLoadedFor(null);
+      return;
+    }
+    if (!enabled || loadedFor === pdf) return;
+
+    const signal = { cancelled: false };
+    setIsLoading(true);
+    loadEmbeddedAnnotations(pdf, signal)
+      .then((result) => {
+        if (signal.cancelled) return;
+        setAnnotations(result);
+        setLoadedFor(pdf);
+      })
+      .catch((error) => {
+        console.error("Error loading PDF annotations:", error);
+      })
+      .finally(() => {
+        if (!signal.cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      signal.cancelled = true;
+      setIsLoading(false);
+    };
+  }, [pdf, enabled, loadedFor]);
+
+  return { annotations, isLoading };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import {
+  DocumentRenderer,
+  LoadProgress,
+  LoadedDocument,
+} from "@/lib/document-renderer";
+import { DocumentLoadError, toLoadError } from "@/lib/load-errors";
+
+interface LoadState {
+  document: LoadedDocument | null;
+  error: DocumentLoadError | null;
+  progress: LoadProgress | null;
+}
+
+const NOT_LOADED: LoadState = { document: null, error: null, progress: null };
+
+// Opens a file with a non-PDF renderer; does nothing without a renderer or URL
+export function useLoadedDocument(
+  renderer: DocumentRenderer | null,
+  url: string | null,
+  mimeType?: string
+) {
+  const [state, setState] = useState<LoadState>(NOT_LOADED);
+
+  useEffect(() => {
+    setState(NOT_LOADED);
+    if (!renderer || !url) return;
+
+    const controller = new AbortController();
+    renderer
+      .load({ url, mimeType }, controller.signal, (progress) => {
+        if (!controller.signal.aborted) {
+          setState((state) => ({ ...state, progress }));
+        }
+      })
+      .then((document) => {
+        if (!controller.signal.aborted) {
+          setState((state) => ({ ...state, document }));
+        }
+      })
+      .catch(async (error: Error) => {
+        if (controller.signal.aborted) return;
+        console.error(`Error loading ${renderer.name} document:`, error);
+        const loadError = await toLoadError(error, url);
+        if (!controller.signal.aborted) {
+          setState((state) => ({ ...state, error: loadError }));
+        }
+      });
+
+    return () => controller.abort();
+  }, [renderer, url, mimeType]);
+
+  return state;
+}
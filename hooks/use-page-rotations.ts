@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import {
+  PageRotations,
+  loadRotations,
+  rotateBy,
+  storeRotations,
+} from "@/lib/page-rotation";
+
+// Pages the reader turned, remembered per fileUrl like bookmarks
+export function usePageRotations(fileUrl: string) {
+  const [rotations, setRotations] = useState<PageRotations>({});
+  const [loadedUrl, setLoadedUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRotations(loadRotations(fileUrl));
+    setLoadedUrl(fileUrl);
+  }, [fileUrl]);
+
+  useEffect(() => {
+    if (loadedUrl === fileUrl) {
+      storeRotations(fileUrl, rotations);
+    }
+  }, [rotations, fileUrl, loadedUrl]);
+
+  const rotatePages = (pageNumbers: number[], degrees: number) =>
+    setRotations((prev) => {
+      const next = { ...prev };
+      for (const pageNumber of pageNumbers) {
+        const rotation = rotateBy(prev[pageNumber] ?? 0, degrees);
+        if (rotation === 0) {
+          delete next[pageNumber];
+        } else {
+          next[pageNumber] = rotation;
+        }
+      }
+      return next;
+    });
+
+  return { rotations, rotatePages };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { PageGeometry, Rotation } from "@/lib/page-rotation";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+
+// Size in PDF points of every page in the document, indexed by page number - 1,
+// along with the rotation and box each page declares. Null until all pages are
+// read.
+export function usePageSizes(pdf: PDFDocumentProxy | null) {
+  const [pageSizes, setPageSizes] = useState<PageGeometry[] | null>(null);
+
+  useEffect(() => {
+    setPageSizes(null);
+    if (!pdf) return;
+
+    let cancelled = false;
+    const pageNumbers = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+    Promise.all(
+      pageNumbers.map(async (pageNumber) => {
+        const page = await pdf.getPage(pageNumber);
+        const { width, height } = page.getViewport({ scale: 1 });
+        return {
+          width,
+          height,
+          rotation: page.rotate as Rotation,
+          viewBox: page.view,
+        };
+      })
+    )
+      .then((sizes) => !cancelled && setPageSizes(sizes))
+      .catch((error) => console.error("Error reading page sizes:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  return pageSizes;
+}
@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  AnnotationConflictError,
+  DocumentAnnotations,
+  documentIdFor,
+  fetchAnnotations,
+  persistableAnnotations,
+  saveAnnotations,
+} from "@/lib/annotations";
+
+interface UseSavedAnnotationsOptions {
+  fileUrl: string;
+  // Overrides the id derived from fileUrl
+  documentId?: string;
+  annotations: DocumentAnnotations;
+  onLoad: (annotations: DocumentAnnotations) => void;
+}
+
+const snapshotOf = (annotations: DocumentAnnotations) =>
+  JSON.stringify(persistableAnnotations(annotations));
+
+// Loads a document's annotations when the viewer shows it and tracks whether
+// the in-memory copy differs from the last saved version. After a conflict
+// the local copy is kept until the reader overwrites or reloads.
+export function useSavedAnnotations({
+  fileUrl,
+  documentId,
+  annotations,
+  onLoad,
+}: UseSavedAnnotationsOptions) {
+  const [docId, setDocId] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const [savedSnapshot, setSavedSnapshot] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The server's version when a save found it changed by someone else
+  const [conflictVersion, setConflictVersion] = useState<number | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  useEffect(() => {
+    // Nothing from the previous document may be compared or saved against
+    // this one
+    setDocId(null);
+    setVersion(0);
+    setSavedSnapshot(null);
+    setError(null);
+    setConflictVersion(null);
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const id = documentId ?? (await documentIdFor(fileUrl));
+        const stored = await fetchAnnotations(id);
+        if (cancelled) return;
+        setDocId(id);
+        setVersion(stored.version);
+        setSavedSnapshot(snapshotOf(stored.annotations));
+        onLoadRef.current(stored.annotations);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error loading annotations:", err);
+        setError(`Failed to load annotations: ${(err as Error).message}`);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileUrl, documentId, reloadToken]);
+
+  const snapshot = useMemo(() => snapshotOf(annotations), [annotations]);
+  const isLoaded = savedSnapshot !== null;
+  const isDirty = isLoaded && snapshot !== savedSnapshot;
+
+  const saveOver = async (baseVersion: number) => {
+    if (!docId || isSaving) return;
+    setIsSaving(true);
+    try {
+      const stored = await saveAnnotations(
+        docId,
+        persistableAnnotations(annotations),
+        baseVersion
+      );
+      setVersion(stored.version);
+      setSavedSnapshot(snapshotOf(stored.annotations));
+      setError(null);
+      setConflictVersion(null);
+    } catch (err) {
+      console.error("Error saving annotations:", err);
+      if (err instanceof AnnotationConflictError) {
+        setConflictVersion(err.currentVersion);
+        setError(
+          `${err.message}. Overwrite them with yours, or reload to get theirs.`
+        );
+      } else {
+        setError(`Failed to save annotations: ${(err as Error).message}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = () => saveOver(version);
+
+  // Saves the local copy over the changes that caused the conflict
+  const overwrite = () => {
+    if (conflictVersion !== null) saveOver(conflictVersion);
+  };
+
+  // Replaces the local copy, unsaved edits included, with the server's
+  const reload = () => setReloadToken((token) => token + 1);
+
+  return {
+    isLoaded,
+    isDirty,
+    isSaving,
+    error,
+    hasConflict: conflictVersion !== null,
+    save,
+    overwrite,
+    reload,
+  };
+}
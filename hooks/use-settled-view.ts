@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface SettledView {
+  scale: number;
+  // Bumped every time the view comes to rest, including after a plain pan
+  version: number;
+}
+
+// Zoom level once pan and zoom gestures have paused, for work that is too slow
+// to redo on every frame
+export function useSettledView(delay: number) {
+  const [settledView, setSettledView] = useState<SettledView>({
+    scale: 1,
+    version: 0,
+  });
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const scheduleSettle = useCallback(
+    (scale: number) => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      timeoutRef.current = setTimeout(() => {
+        timeoutRef.current = null;
+        setSettledView((prev) => ({ scale, version: prev.version + 1 }));
+      }, delay);
+    },
+    [delay]
+  );
+
+  useEffect(
+    () => () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    },
+    []
+  );
+
+  return { settledView, scheduleSettle };
+}
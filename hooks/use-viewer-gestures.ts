@@ -0,0 +1,368 @@
+import React, {
+  MutableRefObject,
+  RefObject,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  DOUBLE_TAP_DISTANCE,
+  DOUBLE_TAP_MS,
+  MIN_INERTIA_SPEED,
+  MotionSample,
+  ScreenPoint,
+  TAP_SLOP,
+  anchoredPan,
+  decayVelocity,
+  midpoint,
+  pointerDistance,
+  releaseVelocity,
+  speedOf,
+  trimSamples,
+} from "@/lib/gestures";
+import { ZOOM_STEP } from "@/lib/zoom";
+import { PointerMode } from "@/lib/viewer-api";
+
+// What the pointers on the viewer are doing; positions are container-relative
+type Gesture =
+  | { type: "pan"; start: ScreenPoint; startPan: ScreenPoint }
+  // A touch in a drawing mode, which only becomes a click if it doesn't move
+  | { type: "tap"; start: ScreenPoint; client: ScreenPoint; tapCount: number }
+  | {
+      type: "pinch";
+      startPan: ScreenPoint;
+      startScale: number;
+      startMidpoint: ScreenPoint;
+      startDistance: number;
+    };
+
+interface LastTap extends ScreenPoint {
+  time: number;
+  count: number;
+}
+
+const WHEEL_LINE_HEIGHT = 16;
+const WHEEL_ZOOM_SPEED = 0.01; // Zoom per pixel of wheel delta, capped at a step
+const DOUBLE_TAP_ZOOM = 2; // Relative to the fitted scale
+
+interface ViewerGestureOptions {
+  containerRef: RefObject<HTMLElement>;
+  // The viewer's pan and applied scale, which gestures move directly
+  panOffsetRef: MutableRefObject<ScreenPoint>;
+  scaleRef: MutableRefObject<number>;
+  mode: PointerMode;
+  fitScale: number;
+  // Whether a plain wheel scrolls the pages, as it does in continuous mode
+  scrollsWithWheel: boolean;
+  toContainerPoint: (clientX: number, clientY: number) => ScreenPoint;
+  clampScale: (scale: number) => number;
+  clampPan: (pan: ScreenPoint, scale: number) => ScreenPoint;
+  updateTransform: (scale: number) => void;
+  // Called with every zoom a gesture makes
+  onZoom: (scale: number) => void;
+  onResetView: () => void;
+  // A click or tap with the ruler or comment tool, in client coordinates
+  onToolClick: (client: ScreenPoint, tapCount: number) => void;
+}
+
+// Mouse, touch and wheel handling for the viewer: drag and middle-button
+// panning with inertia, pinch and ctrl+wheel zoom, and double-tap zoom
+export function useViewerGestures({
+  containerRef,
+  panOffsetRef,
+  scaleRef,
+  mode,
+  fitScale,
+  scrollsWithWheel,
+  toContainerPoint,
+  clampScale,
+  clampPan,
+  updateTransform,
+  onZoom,
+  onResetView,
+  onToolClick,
+}: ViewerGestureOptions) {
+  const [isPanning, setIsPanning] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  // Touch pointers currently down, by pointer id
+  const pointersRef = useRef(new Map<number, ScreenPoint>());
+  const gestureRef = useRef<Gesture | null>(null);
+  const motionRef = useRef<MotionSample[]>([]);
+  const lastTapRef = useRef<LastTap | null>(null);
+  const inertiaFrameRef = useRef<number | null>(null);
+  const handleWheelRef = useRef<(e: WheelEvent) => void>();
+
+  // Counts quick taps or clicks in the same spot, for double-tap gestures
+  const countTap = (point: ScreenPoint, time: number) => {
+    const last = lastTapRef.current;
+    const count =
+      last &&
+      time - last.time <= DOUBLE_TAP_MS &&
+      pointerDistance(last, point) <= DOUBLE_TAP_DISTANCE
+        ? last.count + 1
+        : 1;
+    lastTapRef.current = { ...point, time, count };
+    return count;
+  };
+
+  const stopInertia = useCallback(() => {
+    if (inertiaFrameRef.current !== null) {
+      cancelAnimationFrame(inertiaFrameRef.current);
+      inertiaFrameRef.current = null;
+    }
+  }, []);
+
+  // Drops whatever the pointers were doing, as when another file opens
+  const resetGestures = useCallback(() => {
+    stopInertia();
+    pointersRef.current.clear();
+    gestureRef.current = null;
+    setIsPanning(false);
+  }, [stopInertia]);
+
+  // Keeps a released pan gliding and slowing down
+  const startInertia = (velocity: ScreenPoint) => {
+    if (speedOf(velocity) < MIN_INERTIA_SPEED) return;
+    let current = velocity;
+    let lastTime = performance.now();
+    const step = (time: number) => {
+      const elapsed = time - lastTime;
+      lastTime = time;
+      panOffsetRef.current = clampPan(
+        {
+          x: panOffsetRef.current.x + current.x * elapsed,
+          y: panOffsetRef.current.y + current.y * elapsed,
+        },
+        scaleRef.current
+      );
+      updateTransform(scaleRef.current);
+      current = decayVelocity(current, elapsed);
+      inertiaFrameRef.current =
+        speedOf(current) < MIN_INERTIA_SPEED
+          ? null
+          : requestAnimationFrame(step);
+    };
+    inertiaFrameRef.current = requestAnimationFrame(step);
+  };
+
+  const startPan = (point: ScreenPoint, time: number) => {
+    gestureRef.current = {
+      type: "pan",
+      start: point,
+      startPan: { ...panOffsetRef.current },
+    };
+    motionRef.current = [{ ...point, time }];
+    setIsPanning(true);
+  };
+
+  const startPinch = () => {
+    const [a, b] = Array.from(pointersRef.current.values());
+    gestureRef.current = {
+      type: "pinch",
+      startPan: { ...panOffsetRef.current },
+      startScale: scaleRef.current,
+      startMidpoint: midpoint(a, b),
+      startDistance: Math.max(1, pointerDistance(a, b)),
+    };
+    setIsPanning(true);
+  };
+
+  // Double tap toggles between the fitted view and a closer look at the tap
+  const toggleZoom = (point: ScreenPoint) => {
+    if (Math.abs(scaleRef.current - fitScale) > fitScale * 0.01) {
+      onResetView();
+      return;
+    }
+    const newScale = clampScale(fitScale * DOUBLE_TAP_ZOOM);
+    panOffsetRef.current = anchoredPan(
+      panOffsetRef.current,
+      scaleRef.current,
+      newScale,
+      point
+    );
+    onZoom(newScale);
+    updateTransform(newScale);
+  };
+
+  const handleWheel = (e: WheelEvent) => {
+    if ((e.ctrlKey || e.metaKey) && isFocused) {
+      e.preventDefault();
+      e.stopPropagation();
+      stopInertia();
+
+      // Trackpad pinches arrive as ctrl+wheel with small deltas, so the zoom
+      // follows the delta instead of always taking a full step
+      const zoomFactor = Math.min(
+        ZOOM_STEP,
+        Math.max(1 / ZOOM_STEP, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED))
+      );
+      const currentScale = scaleRef.current;
+      const newScale = clampScale(currentScale * zoomFactor);
+      panOffsetRef.current = anchoredPan(
+        panOffsetRef.current,
+        currentScale,
+        newScale,
+        toContainerPoint(e.clientX, e.clientY)
+      );
+
+      onZoom(newScale);
+      updateTransform(newScale);
+    } else if (scrollsWithWheel && isFocused) {
+      // Plain wheel scrolls through the stack
+      e.preventDefault();
+      stopInertia();
+      const lineHeight =
+        e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      panOffsetRef.current = clampPan(
+        {
+          x: panOffsetRef.current.x - e.deltaX * lineHeight,
+          y: panOffsetRef.current.y - e.deltaY * lineHeight,
+        },
+        scaleRef.current
+      );
+      updateTransform(scaleRef.current);
+    }
+  };
+  handleWheelRef.current = handleWheel;
+
+  // React's wheel listener is passive, so this one is attached by hand. It is
+  // attached once and calls the latest handler.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container) {
+      const handleWheel = (e: WheelEvent) => handleWheelRef.current?.(e);
+      container.addEventListener("wheel", handleWheel, { passive: false });
+
+      return () => {
+        container.removeEventListener("wheel", handleWheel);
+      };
+    }
+  }, [containerRef]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    stopInertia();
+    const point = toContainerPoint(e.clientX, e.clientY);
+    const isTouch = e.pointerType === "touch";
+    if (isTouch) {
+      pointersRef.current.set(e.pointerId, point);
+      // A second finger turns whatever the first was doing into a pinch
+      if (pointersRef.current.size === 2) {
+        startPinch();
+        return;
+      }
+      if (pointersRef.current.size > 2) return;
+    } else if (e.button !== 0 && e.button !== 1) {
+      return;
+    }
+
+    const isPrimary = e.button === 0;
+    const tapCount = isPrimary ? countTap(point, e.timeStamp) : 0;
+    const client = { x: e.clientX, y: e.clientY };
+    if (isPrimary && (mode === "ruler" || mode === "comment")) {
+      // A finger may be starting a pan, so it clicks only once it lifts
+      if (isTouch) {
+        gestureRef.current = { type: "tap", start: point, client, tapCount };
+      } else {
+        onToolClick(client, tapCount);
+      }
+      return;
+    }
+    // Leave the primary button to native text selection
+    if (isPrimary && mode === "select" && !isTouch) return;
+    if (isPrimary && mode === "drag" && tapCount === 2) {
+      toggleZoom(point);
+      return;
+    }
+    // Middle button pans in every mode
+    if (e.button === 1) e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startPan(point, e.timeStamp);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = toContainerPoint(e.clientX, e.clientY);
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, point);
+    }
+
+    const gesture = gestureRef.current;
+    if (gesture?.type === "tap") {
+      if (pointerDistance(gesture.start, point) > TAP_SLOP) {
+        startPan(gesture.start, e.timeStamp);
+      } else {
+        return;
+      }
+    }
+
+    const current = gestureRef.current;
+    if (current?.type === "pan") {
+      panOffsetRef.current = {
+        x: current.startPan.x + point.x - current.start.x,
+        y: current.startPan.y + point.y - current.start.y,
+      };
+      motionRef.current = trimSamples(
+        [...motionRef.current, { ...point, time: e.timeStamp }],
+        e.timeStamp
+      );
+      updateTransform(scaleRef.current);
+    } else if (current?.type === "pinch" && pointersRef.current.size === 2) {
+      // Zooms around the fingers and follows them as they move together
+      const [a, b] = Array.from(pointersRef.current.values());
+      const newScale = clampScale(
+        (current.startScale * pointerDistance(a, b)) / current.startDistance
+      );
+      panOffsetRef.current = anchoredPan(
+        current.startPan,
+        current.startScale,
+        newScale,
+        current.startMidpoint,
+        midpoint(a, b)
+      );
+      onZoom(newScale);
+      updateTransform(newScale);
+    }
+  };
+
+  const endGesture = (e: React.PointerEvent, isCancelled: boolean) => {
+    pointersRef.current.delete(e.pointerId);
+    const gesture = gestureRef.current;
+    if (gesture?.type === "pinch") {
+      // The finger left on the page carries on panning
+      const [remaining] = Array.from(pointersRef.current.values());
+      if (pointersRef.current.size === 2) {
+        startPinch();
+      } else if (remaining && pointersRef.current.size === 1) {
+        startPan(remaining, e.timeStamp);
+      } else if (pointersRef.current.size === 0) {
+        gestureRef.current = null;
+        setIsPanning(false);
+      }
+      return;
+    }
+
+    gestureRef.current = null;
+    setIsPanning(false);
+    if (isCancelled) return;
+    if (gesture?.type === "tap") {
+      onToolClick(gesture.client, gesture.tapCount);
+    } else if (gesture?.type === "pan") {
+      startInertia(releaseVelocity(motionRef.current, e.timeStamp));
+    }
+  };
+
+  return {
+    isPanning,
+    stopInertia,
+    resetGestures,
+    // Spread onto the element the gestures happen on
+    pointerHandlers: {
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: (e: React.PointerEvent) => endGesture(e, false),
+      onPointerCancel: (e: React.PointerEvent) => endGesture(e, true),
+      onMouseEnter: () => setIsFocused(true),
+      onMouseLeave: () => setIsFocused(false),
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { CommentThread } from "@/lib/comments";
+import {
+  Measurement,
+  PageCalibration,
+  PagePoint,
+  measurementValue,
+} from "@/lib/measurement";
+import { EmbeddedAnnotation } from "@/lib/pdf-annotations";
+
+export type AnnotationEntryType = "comment" | "measurement" | "embedded";
+
+// A flattened view of every kind of annotation, used for listing and search
+export interface AnnotationEntry {
+  id: string;
+  type: AnnotationEntryType;
+  pageNumber: number;
+  point: PagePoint;
+  title: string;
+  text: string;
+  author: string | null;
+  // Only comments have a resolved state
+  resolved: boolean | null;
+  createdAt: string | null;
+}
+
+export interface AnnotationFilters {
+  query: string;
+  type: AnnotationEntryType | "all";
+  author: string | "all";
+  pageNumber: number | "all";
+  status: "all" | "open" | "resolved";
+}
+
+export const DEFAULT_FILTERS: AnnotationFilters = {
+  query: "",
+  type: "all",
+  author: "all",
+  pageNumber: "all",
+  status: "all",
+};
+
+const MEASUREMENT_TITLES: Record<Measurement["kind"], string> = {
+  distance: "Distance",
+  polyline: "Polyline",
+  area: "Area",
+};
+
+const centroid = (points: PagePoint[]): PagePoint => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+export const commentEntries = (threads: CommentThread[]): AnnotationEntry[] =>
+  threads
+    .filter((t) => t.messages.length > 0)
+    .map((t) => ({
+      id: t.id,
+      type: "comment",
+      pageNumber: t.pageNumber,
+      point: t.position,
+      title: t.messages[0].author,
+      text: t.messages.map((m) => m.body).join("\n"),
+      author: t.messages[0].author,
+      resolved: t.resolved,
+      createdAt: t.createdAt,
+    }));
+
+export const measurementEntries = (
+  measurements: Measurement[],
+  calibrations: Record<number, PageCalibration>
+): AnnotationEntry[] =>
+  measurements.map((m) => ({
+    id: m.id,
+    type: "measurement",
+    pageNumber: m.pageNumber,
+    point: centroid(m.points),
+    title: MEASUREMENT_TITLES[m.kind],
+    text: measurementValue(m, calibrations[m.pageNumber]),
+    author: null,
+    resolved: null,
+    createdAt: m.createdAt,
+  }));
+
+export const embeddedEntries = (
+  annotations: EmbeddedAnnotation[]
+): AnnotationEntry[] =>
+  annotations.map((a) => ({
+    id: a.id,
+    type: "embedded",
+    pageNumber: a.pageNumber,
+    point: a.point,
+    title: a.subtype,
+    text: a.contents,
+    author: a.author,
+    resolved: null,
+    createdAt: a.modifiedAt,
+  }));
+
+export const filterEntries = (
+  entries: AnnotationEntry[],
+  filters: AnnotationFilters
+) => {
+  const query = filters.query.trim().toLowerCase();
+  return entries
+    .filter(
+      (e) =>
+        (filters.type === "all" || e.type === filters.type) &&
+        (filters.author === "all" || e.author === filters.author) &&
+        (filters.pageNumber === "all" || e.pageNumber === filters.pageNumber) &&
+        (filters.status === "all" ||
+          (e.resolved !== null &&
+            e.resolved === (filters.status === "resolved"))) &&
+        (!query ||
+          e.title.toLowerCase().includes(query) ||
+          e.text.toLowerCase().includes(query) ||
+          (e.author?.toLowerCase().includes(query) ?? false))
+    )
+    .sort((a, b) => a.pageNumber - b.pageNumber || a.point.y - b.point.y);
+};
@@ -0,0 +1,93 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DocumentAnnotations,
+  EMPTY_ANNOTATIONS,
+  StoredAnnotations,
+} from "@/lib/annotations";
+
+// Server-only: annotations are kept as one JSON file per document
+const STORE_DIR =
+  process.env.ANNOTATIONS_DIR ??
+  path.join(process.cwd(), ".data", "annotations");
+
+export class VersionMismatchError extends Error {
+  constructor(public currentVersion: number) {
+    super(`Version mismatch, current version is ${currentVersion}`);
+    this.name = "VersionMismatchError";
+  }
+}
+
+const fileFor = (docId: string) => path.join(STORE_DIR, `${docId}.json`);
+
+// Serialize read-modify-write cycles per document within this process
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(docId: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(docId) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  locks.set(docId, next);
+  const release = () => {
+    if (locks.get(docId) === next) locks.delete(docId);
+  };
+  next.then(release, release);
+  return next;
+}
+
+export async function readAnnotations(
+  docId: string
+): Promise<StoredAnnotations> {
+  try {
+    const contents = await fs.readFile(fileFor(docId), "utf8");
+    return JSON.parse(contents) as StoredAnnotations;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {
+        docId,
+        version: 0,
+        updatedAt: null,
+        annotations: EMPTY_ANNOTATIONS,
+      };
+    }
+    throw error;
+  }
+}
+
+export function writeAnnotations(
+  docId: string,
+  annotations: DocumentAnnotations,
+  expectedVersion: number
+) {
+  return withLock(docId, async () => {
+    const current = await readAnnotations(docId);
+    if (current.version !== expectedVersion) {
+      throw new VersionMismatchError(current.version);
+    }
+
+    const stored: StoredAnnotations = {
+      docId,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+      annotations,
+    };
+
+    // Write to a temporary file first so readers never see a partial file
+    await fs.mkdir(STORE_DIR, { recursive: true });
+    const tempFile = `${fileFor(docId)}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(stored, null, 2));
+    await fs.rename(tempFile, fileFor(docId));
+
+    return stored;
+  });
+}
+
+export function removeAnnotations(docId: string, expectedVersion: number) {
+  return withLock(docId, async () => {
+    const current = await readAnnotations(docId);
+    if (current.version !== expectedVersion) {
+      throw new VersionMismatchError(current.version);
+    }
+    await fs.rm(fileFor(docId), { force: true });
+  });
+}
@@ -0,0 +1,185 @@
+import { CommentMessage, CommentThread } from "@/lib/comments";
+import {
+  MEASUREMENT_UNITS,
+  Measurement,
+  PageCalibration,
+  PagePoint,
+} from "@/lib/measurement";
+
+export interface DocumentAnnotations {
+  measurements: Measurement[];
+  calibrations: Record<number, PageCalibration>;
+  comments: CommentThread[];
+}
+
+export interface StoredAnnotations {
+  docId: string;
+  // Incremented on every save; 0 means nothing has been saved yet
+  version: number;
+  updatedAt: string | null;
+  annotations: DocumentAnnotations;
+}
+
+export const EMPTY_ANNOTATIONS: DocumentAnnotations = {
+  measurements: [],
+  calibrations: {},
+  comments: [],
+};
+
+export const DOC_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export class AnnotationConflictError extends Error {
+  constructor(public currentVersion: number) {
+    super("Annotations were changed by someone else since they were loaded");
+    this.name = "AnnotationConflictError";
+  }
+}
+
+// Largest annotations document the server accepts, as JSON
+export const MAX_ANNOTATIONS_BYTES = 5 * 1024 * 1024;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isPageNumber = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1;
+
+const isPoint = (value: unknown): value is PagePoint =>
+  isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+const isMessage = (value: unknown): value is CommentMessage =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.author) &&
+  isString(value.body) &&
+  isString(value.createdAt) &&
+  (value.updatedAt === undefined || isString(value.updatedAt));
+
+const isThread = (value: unknown): value is CommentThread =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isPageNumber(value.pageNumber) &&
+  isPoint(value.position) &&
+  typeof value.resolved === "boolean" &&
+  isString(value.createdAt) &&
+  Array.isArray(value.messages) &&
+  value.messages.every(isMessage);
+
+const isMeasurement = (value: unknown): value is Measurement =>
+  isRecord(value) &&
+  isString(value.id) &&
+  (value.kind === "distance" ||
+    value.kind === "polyline" ||
+    value.kind === "area") &&
+  isPageNumber(value.pageNumber) &&
+  Array.isArray(value.points) &&
+  value.points.every(isPoint) &&
+  isString(value.createdAt);
+
+const isCalibration = (value: unknown): value is PageCalibration =>
+  isRecord(value) &&
+  MEASUREMENT_UNITS.includes(value.unit as PageCalibration["unit"]) &&
+  Number.isFinite(value.unitsPerPoint) &&
+  (value.unitsPerPoint as number) > 0;
+
+export const isDocumentAnnotations = (
+  value: unknown
+): value is DocumentAnnotations => {
+  if (!isRecord(value)) return false;
+  const { measurements, calibrations, comments } = value;
+  return (
+    Array.isArray(measurements) &&
+    measurements.every(isMeasurement) &&
+    Array.isArray(comments) &&
+    comments.every(isThread) &&
+    isRecord(calibrations) &&
+    Object.entries(calibrations).every(
+      ([pageNumber, calibration]) =>
+        isPageNumber(Number(pageNumber)) && isCalibration(calibration)
+    )
+  );
+};
+
+// Stable id for a document derived from its URL. crypto.subtle only exists on
+// secure origins, so plain http asks the server to hash the URL.
+export async function documentIdFor(fileUrl: string) {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    const response = await fetch(
+      `/api/document-id?url=${encodeURIComponent(fileUrl)}`
+    );
+    if (!response.ok) throw new Error(await readError(response));
+    return ((await response.json()) as { docId: string }).docId;
+  }
+  const bytes = new TextEncoder().encode(fileUrl);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const endpoint = (docId: string) =>
+  `/api/annotations/${encodeURIComponent(docId)}`;
+
+const readError = async (response: Response) => {
+  try {
+    const body = await response.json();
+    return body.error ?? `HTTP error! status: ${response.status}`;
+  } catch {
+    return `HTTP error! status: ${response.status}`;
+  }
+};
+
+export async function fetchAnnotations(docId: string) {
+  const response = await fetch(endpoint(docId), { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return (await response.json()) as StoredAnnotations;
+}
+
+export async function saveAnnotations(
+  docId: string,
+  annotations: DocumentAnnotations,
+  baseVersion: number
+) {
+  const response = await fetch(endpoint(docId), {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      "If-Match": `"${baseVersion}"`,
+    },
+    body: JSON.stringify(annotations),
+  });
+  if (response.status === 412) {
+    const body = await response.json();
+    throw new AnnotationConflictError(body.version);
+  }
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return (await response.json()) as StoredAnnotations;
+}
+
+export async function deleteAnnotations(docId: string, baseVersion: number) {
+  const response = await fetch(endpoint(docId), {
+    method: "DELETE",
+    headers: { "If-Match": `"${baseVersion}"` },
+  });
+  if (response.status === 412) {
+    const body = await response.json();
+    throw new AnnotationConflictError(body.version);
+  }
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}
+
+// Threads without messages are unsent drafts and are never persisted
+export const persistableAnnotations = (
+  annotations: DocumentAnnotations
+): DocumentAnnotations => ({
+  ...annotations,
+  comments: annotations.comments.filter((t) => t.messages.length > 0),
+});
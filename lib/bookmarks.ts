@@ -0,0 +1,50 @@
+import { PagePoint } from "@/lib/measurement";
+import { ViewMode } from "@/lib/page-layout";
+
+export interface Bookmark {
+  id: string;
+  label: string;
+  pageNumber: number;
+  // Absolute viewer scale and pan offset, restored as-is when jumping back
+  scale: number;
+  panOffset: PagePoint;
+  // Layout the pan offset belongs to; older bookmarks were all single page
+  viewMode?: ViewMode;
+  createdAt: string;
+}
+
+const storageKey = (fileUrl: string) => `document-viewer:bookmarks:${fileUrl}`;
+
+export function loadBookmarks(fileUrl: string): Bookmark[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(storageKey(fileUrl));
+    return stored ? (JSON.parse(stored) as Bookmark[]) : [];
+  } catch (error) {
+    console.error("Error reading bookmarks:", error);
+    return [];
+  }
+}
+
+export function storeBookmarks(fileUrl: string, bookmarks: Bookmark[]) {
+  try {
+    if (bookmarks.length === 0) {
+      window.localStorage.removeItem(storageKey(fileUrl));
+    } else {
+      window.localStorage.setItem(
+        storageKey(fileUrl),
+        JSON.stringify(bookmarks)
+      );
+    }
+  } catch (error) {
+    console.error("Error saving bookmarks:", error);
+  }
+}
+
+export const moveItem = <T>(items: T[], from: number, to: number) => {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
@@ -0,0 +1,102 @@
+import { PagePoint } from "@/lib/measurement";
+import { createId } from "@/lib/utils";
+
+export interface CommentMessage {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CommentThread {
+  id: string;
+  pageNumber: number;
+  // Pin location in PDF page space, like measurement points
+  position: PagePoint;
+  resolved: boolean;
+  createdAt: string;
+  // The first message is the comment itself, the rest are replies
+  messages: CommentMessage[];
+}
+
+export const createThread = (
+  pageNumber: number,
+  position: PagePoint
+): CommentThread => ({
+  id: createId(),
+  pageNumber,
+  position,
+  resolved: false,
+  createdAt: new Date().toISOString(),
+  messages: [],
+});
+
+export const createMessage = (
+  author: string,
+  body: string
+): CommentMessage => ({
+  id: createId(),
+  author,
+  body,
+  createdAt: new Date().toISOString(),
+});
+
+const updateThread = (
+  threads: CommentThread[],
+  threadId: string,
+  update: (thread: CommentThread) => CommentThread
+) => threads.map((t) => (t.id === threadId ? update(t) : t));
+
+export const addMessage = (
+  threads: CommentThread[],
+  threadId: string,
+  message: CommentMessage
+) =>
+  updateThread(threads, threadId, (t) => ({
+    ...t,
+    messages: [...t.messages, message],
+  }));
+
+export const editMessage = (
+  threads: CommentThread[],
+  threadId: string,
+  messageId: string,
+  body: string
+) =>
+  updateThread(threads, threadId, (t) => ({
+    ...t,
+    messages: t.messages.map((m) =>
+      m.id === messageId
+        ? { ...m, body, updatedAt: new Date().toISOString() }
+        : m
+    ),
+  }));
+
+// Deleting the opening message removes the whole thread
+export const deleteMessage = (
+  threads: CommentThread[],
+  threadId: string,
+  messageId: string
+) => {
+  const thread = threads.find((t) => t.id === threadId);
+  if (thread?.messages[0]?.id === messageId) {
+    return threads.filter((t) => t.id !== threadId);
+  }
+  return updateThread(threads, threadId, (t) => ({
+    ...t,
+    messages: t.messages.filter((m) => m.id !== messageId),
+  }));
+};
+
+export const setThreadResolved = (
+  threads: CommentThread[],
+  threadId: string,
+  resolved: boolean
+) => updateThread(threads, threadId, (t) => ({ ...t, resolved }));
+
+export const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
@@ -0,0 +1,97 @@
+import type React from "react";
+import { PageSize } from "@/lib/measurement";
+import { httpError } from "@/lib/load-errors";
+import { fileExtension } from "@/lib/utils";
+
+// The file a renderer is asked to open
+export interface DocumentSource {
+  url: string;
+  // Content type when the host knows it; otherwise the URL's extension decides
+  mimeType?: string;
+}
+
+export interface LoadProgress {
+  loaded: number;
+  // Null when the server doesn't say how big the file is
+  total: number | null;
+}
+
+export interface PageRenderProps {
+  pageNumber: number;
+  // Called once the page is drawn, like react-pdf's onRenderSuccess
+  onRender: () => void;
+}
+
+// A document opened by a renderer. Pages are measured in CSS pixels, which
+// the viewer treats like PDF points.
+export interface LoadedDocument {
+  numPages: number;
+  pageSizes: PageSize[];
+  // Draws a page at its size, unrotated; the viewer rotates and zooms it
+  renderPage: (props: PageRenderProps) => React.ReactNode;
+}
+
+// Opens the file types it lists. PDFs are not a renderer: react-pdf handles
+// them, along with the search, outline and text layer only PDFs have.
+export interface DocumentRenderer {
+  name: string;
+  // Exact types, or a family such as "text/*"
+  mimeTypes: string[];
+  // Lower case, without the dot
+  extensions: string[];
+  load: (
+    source: DocumentSource,
+    signal: AbortSignal,
+    onProgress?: (progress: LoadProgress) => void
+  ) => Promise<LoadedDocument>;
+}
+
+const matchesMimeType = (pattern: string, mimeType: string) =>
+  pattern.endsWith("/*")
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : pattern === mimeType;
+
+// The first renderer that takes the source, or null to open it as a PDF
+export const pickRenderer = (
+  renderers: DocumentRenderer[],
+  source: DocumentSource
+): DocumentRenderer | null => {
+  const mimeType = source.mimeType?.split(";")[0].trim().toLowerCase();
+  if (mimeType) {
+    return (
+      renderers.find((renderer) =>
+        renderer.mimeTypes.some((pattern) => matchesMimeType(pattern, mimeType))
+      ) ?? null
+    );
+  }
+  const extension = fileExtension(source.url);
+  return (
+    renderers.find((renderer) => renderer.extensions.includes(extension)) ??
+    null
+  );
+};
+
+// Fetches the file, turning HTTP errors into rejections. Progress is
+// reported as the body is read.
+export const fetchSource = async (
+  source: DocumentSource,
+  signal: AbortSignal,
+  onProgress?: (progress: LoadProgress) => void
+) => {
+  const response = await fetch(source.url, { signal });
+  if (!response.ok) throw httpError(response.status);
+  if (!onProgress || !response.body) return response;
+
+  const total = Number(response.headers.get("content-length")) || null;
+  let loaded = 0;
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.length;
+        onProgress({ loaded, total });
+        controller.enqueue(chunk);
+      },
+    })
+  );
+  return new Response(body, { headers: response.headers });
+};
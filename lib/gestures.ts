@@ -0,0 +1,77 @@
+// Pure helpers for pointer gestures, all in container-relative pixels
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface MotionSample extends ScreenPoint {
+  time: number;
+}
+
+export const DOUBLE_TAP_MS = 300;
+export const DOUBLE_TAP_DISTANCE = 24;
+// Pointers that move less than this still count as a tap
+export const TAP_SLOP = 8;
+// Only the last bit of a drag decides how fast it was released
+const VELOCITY_WINDOW_MS = 100;
+
+export const pointerDistance = (a: ScreenPoint, b: ScreenPoint) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+export const midpoint = (a: ScreenPoint, b: ScreenPoint): ScreenPoint => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+});
+
+// Pan offset that moves the content point under `from` (at the old pan and
+// scale) to `to` at the new scale. With a single point this zooms around it,
+// the way the wheel zooms at the cursor; pinches also follow the fingers.
+export const anchoredPan = (
+  pan: ScreenPoint,
+  scale: number,
+  newScale: number,
+  from: ScreenPoint,
+  to: ScreenPoint = from
+): ScreenPoint => {
+  const contentX = (from.x - pan.x) / scale;
+  const contentY = (from.y - pan.y) / scale;
+  return { x: to.x - contentX * newScale, y: to.y - contentY * newScale };
+};
+
+// Keeps only the samples recent enough to measure release velocity
+export const trimSamples = (samples: MotionSample[], now: number) =>
+  samples.filter((sample) => now - sample.time <= VELOCITY_WINDOW_MS);
+
+// Velocity in pixels per millisecond over the recent samples
+export const releaseVelocity = (
+  samples: MotionSample[],
+  now: number
+): ScreenPoint => {
+  const recent = trimSamples(samples, now);
+  if (recent.length < 2) return { x: 0, y: 0 };
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const elapsed = last.time - first.time;
+  if (elapsed <= 0) return { x: 0, y: 0 };
+  return {
+    x: (last.x - first.x) / elapsed,
+    y: (last.y - first.y) / elapsed,
+  };
+};
+
+// Share of its speed inertia keeps every 16ms frame
+const INERTIA_FRICTION = 0.95;
+// Below this speed, in pixels per millisecond, inertia stops
+export const MIN_INERTIA_SPEED = 0.02;
+
+export const decayVelocity = (
+  velocity: ScreenPoint,
+  elapsed: number
+): ScreenPoint => {
+  const decay = Math.pow(INERTIA_FRICTION, elapsed / 16);
+  return { x: velocity.x * decay, y: velocity.y * decay };
+};
+
+export const speedOf = (velocity: ScreenPoint) =>
+  Math.hypot(velocity.x, velocity.y);
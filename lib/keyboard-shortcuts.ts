@@ -0,0 +1,137 @@
+export type ShortcutAction =
+  | "previousPage"
+  | "nextPage"
+  | "firstPage"
+  | "lastPage"
+  | "scrollUp"
+  | "scrollDown"
+  | "scrollLeft"
+  | "scrollRight"
+  | "zoomIn"
+  | "zoomOut"
+  | "resetZoom"
+  | "dragMode"
+  | "selectMode"
+  | "rulerMode"
+  | "commentMode"
+  | "toggleShortcuts";
+
+export interface Shortcut {
+  action: ShortcutAction;
+  // KeyboardEvent.key values, with letters in lower case
+  keys: string[];
+  description: string;
+  // Whether Ctrl/Cmd may be held, so the browser's own zoom is taken over
+  allowsModifier?: boolean;
+}
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: Shortcut[];
+}
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  {
+    title: "Navigation",
+    shortcuts: [
+      {
+        action: "previousPage",
+        keys: ["PageUp"],
+        description: "Previous page",
+      },
+      { action: "nextPage", keys: ["PageDown"], description: "Next page" },
+      { action: "firstPage", keys: ["Home"], description: "First page" },
+      { action: "lastPage", keys: ["End"], description: "Last page" },
+      { action: "scrollUp", keys: ["ArrowUp"], description: "Scroll up" },
+      { action: "scrollDown", keys: ["ArrowDown"], description: "Scroll down" },
+      {
+        action: "scrollLeft",
+        keys: ["ArrowLeft"],
+        description: "Scroll left, or previous page when not zoomed in",
+      },
+      {
+        action: "scrollRight",
+        keys: ["ArrowRight"],
+        description: "Scroll right, or next page when not zoomed in",
+      },
+    ],
+  },
+  {
+    title: "Zoom",
+    shortcuts: [
+      {
+        action: "zoomIn",
+        keys: ["+", "="],
+        description: "Zoom in",
+        allowsModifier: true,
+      },
+      {
+        action: "zoomOut",
+        keys: ["-"],
+        description: "Zoom out",
+        allowsModifier: true,
+      },
+      {
+        action: "resetZoom",
+        keys: ["0"],
+        description: "Reset view",
+        allowsModifier: true,
+      },
+    ],
+  },
+  {
+    title: "Tools",
+    shortcuts: [
+      { action: "dragMode", keys: ["h"], description: "Drag" },
+      { action: "selectMode", keys: ["t"], description: "Select text" },
+      { action: "rulerMode", keys: ["m"], description: "Measure distance" },
+      { action: "commentMode", keys: ["c"], description: "Comment" },
+      {
+        action: "toggleShortcuts",
+        keys: ["?"],
+        description: "Show or hide keyboard shortcuts",
+      },
+    ],
+  },
+];
+
+const KEY_LABELS: Record<string, string> = {
+  PageUp: "Page Up",
+  PageDown: "Page Down",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+};
+
+export const keyLabel = (key: string) => KEY_LABELS[key] ?? key.toUpperCase();
+
+// First listed key of an action, in the form aria-keyshortcuts expects
+export const ariaKeyShortcut = (action: ShortcutAction) => {
+  for (const group of SHORTCUT_GROUPS) {
+    const shortcut = group.shortcuts.find((item) => item.action === action);
+    if (shortcut) {
+      const [key] = shortcut.keys;
+      return key.length === 1 ? key.toUpperCase() : key;
+    }
+  }
+  return undefined;
+};
+
+export const matchShortcut = (event: {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+}): ShortcutAction | null => {
+  if (event.altKey) return null;
+  const hasModifier = event.ctrlKey || event.metaKey;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  for (const group of SHORTCUT_GROUPS) {
+    for (const shortcut of group.shortcuts) {
+      if (hasModifier && !shortcut.allowsModifier) continue;
+      if (shortcut.keys.includes(key)) return shortcut.action;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,143 @@
+import { fileExtension } from "@/lib/utils";
+
+export type LoadErrorKind =
+  | "network"
+  | "cors"
+  | "http"
+  | "invalid"
+  | "password"
+  | "unsupported"
+  | "cancelled";
+
+// A failure to open a document, with a message for the reader. The original
+// error is kept for logging.
+export class DocumentLoadError extends Error {
+  constructor(
+    public kind: LoadErrorKind,
+    message: string,
+    public status?: number,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = "DocumentLoadError";
+  }
+}
+
+export const LOAD_ERROR_TITLES: Record<LoadErrorKind, string> = {
+  network: "Can't reach the file",
+  cors: "The file's server blocked the viewer",
+  http: "The file couldn't be downloaded",
+  invalid: "The file is damaged",
+  password: "The file is password protected",
+  unsupported: "This file type can't be shown",
+  cancelled: "Loading was cancelled",
+};
+
+const statusMessage = (status: number) => {
+  if (status === 401 || status === 403) {
+    return "You don't have permission to open this file.";
+  }
+  if (status === 404 || status === 410) return "The file was not found.";
+  if (status === 413) return "The file is too large to open here.";
+  if (status === 415) return "The file is not a document this viewer can open.";
+  if (status === 504) return "The file's server took too long to respond.";
+  if (status >= 500) return "The file's server ran into a problem.";
+  return `The server responded with status ${status}.`;
+};
+
+export const httpError = (status: number, cause?: unknown) =>
+  new DocumentLoadError(
+    status === 415 ? "unsupported" : "http",
+    statusMessage(status),
+    status,
+    cause
+  );
+
+// Messages browsers give a fetch that never got a response
+const FETCH_FAILURES = [
+  "Failed to fetch",
+  "NetworkError when attempting to fetch resource.",
+  "Load failed",
+];
+
+const isCrossOrigin = (url: string) =>
+  new URL(url, window.location.href).origin !== window.location.origin;
+
+// Browsers report blocked cross-origin requests like network failures. A
+// no-cors request still goes through in that case, which tells them apart.
+const isBlockedByCors = async (url: string) => {
+  if (!isCrossOrigin(url)) return false;
+  try {
+    await fetch(url, { method: "HEAD", mode: "no-cors" });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Sorts an error from pdf.js, a renderer or fetch into a kind the viewer can
+// explain
+export async function toLoadError(
+  error: unknown,
+  url: string
+): Promise<DocumentLoadError> {
+  if (error instanceof DocumentLoadError) return error;
+  const { name, message, status } = (error ?? {}) as {
+    name?: string;
+    message?: string;
+    status?: number;
+  };
+
+  if (name === "AbortError" || name === "AbortException") {
+    return new DocumentLoadError(
+      "cancelled",
+      "The document stopped loading.",
+      undefined,
+      error
+    );
+  }
+  if (name === "MissingPDFException") return httpError(404, error);
+  if (name === "UnexpectedResponseException" && status) {
+    return httpError(status, error);
+  }
+  if (name === "PasswordException") {
+    return new DocumentLoadError(
+      "password",
+      "The document can't be opened without its password.",
+      undefined,
+      error
+    );
+  }
+  if (message && FETCH_FAILURES.includes(message)) {
+    return (await isBlockedByCors(url))
+      ? new DocumentLoadError(
+          "cors",
+          "The server hosting the file doesn't allow it to be opened from this site.",
+          undefined,
+          error
+        )
+      : new DocumentLoadError(
+          "network",
+          "Check your connection and try again.",
+          undefined,
+          error
+        );
+  }
+  // pdf.js can't tell a damaged PDF from a file that was never a PDF, but the
+  // extension usually can
+  const extension = fileExtension(url);
+  if (name === "InvalidPDFException" && extension && extension !== "pdf") {
+    return new DocumentLoadError(
+      "unsupported",
+      `.${extension} files can't be shown in this viewer.`,
+      undefined,
+      error
+    );
+  }
+  return new DocumentLoadError(
+    "invalid",
+    "The file could not be read. It may be damaged or incomplete.",
+    undefined,
+    error
+  );
+}
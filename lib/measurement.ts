@@ -0,0 +1,118 @@
+export interface PagePoint {
+  x: number;
+  y: number;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export type MeasurementKind = "distance" | "polyline" | "area";
+
+export type MeasurementTool = MeasurementKind | "calibrate";
+
+export type MeasurementUnit = "mm" | "m" | "ft";
+
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  pageNumber: number;
+  // Points are in PDF page space (points, origin top-left), so they are
+  // independent of the viewer's zoom and pan.
+  points: PagePoint[];
+  createdAt: string;
+}
+
+export interface PageCalibration {
+  unit: MeasurementUnit;
+  // Real-world units represented by one PDF point
+  unitsPerPoint: number;
+}
+
+export const MEASUREMENT_UNITS: MeasurementUnit[] = ["mm", "m", "ft"];
+
+// Minimum number of points needed before a shape can be completed
+export const MIN_POINTS: Record<MeasurementKind, number> = {
+  distance: 2,
+  polyline: 2,
+  area: 3,
+};
+
+export const distanceBetween = (a: PagePoint, b: PagePoint) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+export const polylineLength = (points: PagePoint[]) =>
+  points.reduce(
+    (total, point, i) =>
+      i === 0 ? total : total + distanceBetween(points[i - 1], point),
+    0
+  );
+
+// Shoelace formula; points are treated as a closed polygon
+export const polygonArea = (points: PagePoint[]) => {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    sum += current.x * next.y - next.x * current.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+export const createCalibration = (
+  measuredPoints: number,
+  knownLength: number,
+  unit: MeasurementUnit
+): PageCalibration => ({
+  unit,
+  unitsPerPoint: knownLength / measuredPoints,
+});
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, {
+    maximumFractionDigits: value < 10 ? 2 : value < 1000 ? 1 : 0,
+  });
+
+export const formatLength = (
+  lengthInPoints: number,
+  calibration?: PageCalibration
+) => {
+  if (!calibration) return `${formatNumber(lengthInPoints)} pt`;
+  const value = lengthInPoints * calibration.unitsPerPoint;
+  return `${formatNumber(value)} ${calibration.unit}`;
+};
+
+export const formatArea = (
+  areaInPoints: number,
+  calibration?: PageCalibration
+) => {
+  if (!calibration) return `${formatNumber(areaInPoints)} pt²`;
+  const value = areaInPoints * calibration.unitsPerPoint ** 2;
+  return `${formatNumber(value)} ${calibration.unit}²`;
+};
+
+export const measurementValue = (
+  measurement: Pick<Measurement, "kind" | "points">,
+  calibration?: PageCalibration
+) =>
+  measurement.kind === "area"
+    ? formatArea(polygonArea(measurement.points), calibration)
+    : formatLength(polylineLength(measurement.points), calibration);
+
+// Where a measurement's value is shown: the middle of its last segment, or
+// the centroid of an area
+export const labelPosition = (
+  points: PagePoint[],
+  closed: boolean
+): PagePoint => {
+  if (closed) {
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    };
+  }
+  const a = points[points.length - 2];
+  const b = points[points.length - 1];
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+};
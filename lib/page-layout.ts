@@ -0,0 +1,89 @@
+import { PagePoint, PageSize } from "@/lib/measurement";
+import { ItemLayout, layoutItems, visibleRange } from "@/lib/virtualization";
+
+export type ViewMode = "single" | "continuous" | "spread" | "book";
+
+export const VIEW_MODE_LABELS: Record<ViewMode, string> = {
+  single: "Single page",
+  continuous: "Continuous scroll",
+  spread: "Two-page spread",
+  book: "Book (cover alone)",
+};
+
+// First page of the spread a page belongs to. Spreads pair 1-2, 3-4, ...;
+// books show the cover alone and then pair 2-3, 4-5, ...
+export const spreadStart = (mode: ViewMode, pageNumber: number) => {
+  switch (mode) {
+    case "spread":
+      return pageNumber - ((pageNumber - 1) % 2);
+    case "book":
+      return pageNumber === 1 ? 1 : pageNumber - (pageNumber % 2);
+    default:
+      return pageNumber;
+  }
+};
+
+// Pages shown side by side when the given page is in view
+export const spreadPages = (
+  mode: ViewMode,
+  pageNumber: number,
+  numPages: number
+) => {
+  const start = spreadStart(mode, pageNumber);
+  const isFacing = mode === "spread" || (mode === "book" && start > 1);
+  return isFacing && start < numPages ? [start, start + 1] : [start];
+};
+
+// Every page stacked top to bottom and centered horizontally, in PDF points
+export interface PageStackLayout extends ItemLayout {
+  width: number;
+  pageSizes: PageSize[];
+}
+
+export const stackPages = (
+  pageSizes: PageSize[],
+  gap: number
+): PageStackLayout => ({
+  ...layoutItems(
+    pageSizes.map((size) => size.height),
+    gap
+  ),
+  width: Math.max(0, ...pageSizes.map((size) => size.width)),
+  pageSizes,
+});
+
+// Top-left corner of a page within the stack
+export const pageOrigin = (
+  layout: PageStackLayout,
+  pageNumber: number
+): PagePoint => ({
+  x: (layout.width - layout.pageSizes[pageNumber - 1].width) / 2,
+  y: layout.offsets[pageNumber - 1],
+});
+
+// Page under a vertical stack position; gaps belong to the page above
+export const pageAtOffset = (layout: PageStackLayout, y: number) => {
+  const [index] = visibleRange(layout, y, y);
+  return index + 1;
+};
+
+// The page covering most of the [top, bottom] band, preferring earlier pages
+export const mostVisiblePage = (
+  layout: PageStackLayout,
+  top: number,
+  bottom: number
+) => {
+  const [first, last] = visibleRange(layout, top, bottom);
+  let best = first;
+  let bestOverlap = -Infinity;
+  for (let index = first; index <= last; index++) {
+    const start = layout.offsets[index];
+    const overlap =
+      Math.min(bottom, start + layout.sizes[index]) - Math.max(top, start);
+    if (overlap > bestOverlap) {
+      best = index;
+      bestOverlap = overlap;
+    }
+  }
+  return best + 1;
+};
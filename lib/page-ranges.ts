@@ -0,0 +1,33 @@
+// Reads a page range like "1-3, 5, 8-" the way print dialogs do. Open ends
+// run to the first or last page. Returns the pages in order without
+// repeats, or null when the input can't be read or names a missing page.
+export const parsePageRange = (input: string, numPages: number) => {
+  const pages = new Set<number>();
+  const parts = input.split(",").map((part) => part.trim());
+  if (parts.every((part) => part === "")) return null;
+
+  for (const part of parts) {
+    if (part === "") continue;
+    const match = part.match(/^(\d*)\s*(?:-\s*(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) return null;
+    const isRange = part.includes("-");
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = isRange ? (match[2] ? Number(match[2]) : numPages) : start;
+    if (start < 1 || end > numPages || start > end) return null;
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+// The shortest range text for a list of pages, e.g. [1, 2, 3, 5] is "1-3, 5"
+export const formatPageRange = (pages: number[]) => {
+  const parts: string[] = [];
+  let start = pages[0];
+  for (let i = 1; i <= pages.length; i++) {
+    if (pages[i] === pages[i - 1] + 1) continue;
+    const end = pages[i - 1];
+    parts.push(start === end ? String(start) : `${start}-${end}`);
+    start = pages[i];
+  }
+  return parts.join(", ");
+};
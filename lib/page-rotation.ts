@@ -0,0 +1,184 @@
+import { PagePoint, PageSize } from "@/lib/measurement";
+import { PageRect } from "@/lib/pdf-search";
+import type { PDFPageProxy } from "@/lib/pdf-types";
+
+// Clockwise rotation in degrees, on top of the rotation the PDF declares
+export type Rotation = 0 | 90 | 180 | 270;
+export type PageRotations = Record<number, Rotation>;
+
+// Size of a page in points together with the rotation the PDF declares for it
+export interface PageGeometry extends PageSize {
+  rotation: Rotation;
+  // The page's box in PDF user space as [left, bottom, right, top]; files
+  // that aren't PDFs have none
+  viewBox?: number[];
+}
+
+// Page space is the page as the PDF displays it: scale 1 with its own
+// rotation applied. Annotations, search results and outline targets use it.
+export const pageSpaceSize = (
+  page: Pick<PDFPageProxy, "getViewport">
+): PageSize => {
+  const { width, height } = page.getViewport({ scale: 1 });
+  return { width, height };
+};
+
+export const rotateBy = (rotation: Rotation, degrees: number) =>
+  ((((rotation + degrees) % 360) + 360) % 360) as Rotation;
+
+export const rotatedSize = (size: PageSize, rotation: Rotation): PageSize =>
+  rotation % 180 === 0 ? size : { width: size.height, height: size.width };
+
+// Where a page-space point ends up once the page is turned clockwise
+export const toDisplayPoint = (
+  point: PagePoint,
+  size: PageSize,
+  rotation: Rotation
+): PagePoint => {
+  switch (rotation) {
+    case 90:
+      return { x: size.height - point.y, y: point.x };
+    case 180:
+      return { x: size.width - point.x, y: size.height - point.y };
+    case 270:
+      return { x: point.y, y: size.width - point.x };
+    default:
+      return point;
+  }
+};
+
+export const fromDisplayPoint = (
+  point: PagePoint,
+  size: PageSize,
+  rotation: Rotation
+): PagePoint => {
+  switch (rotation) {
+    case 90:
+      return { x: point.y, y: size.height - point.x };
+    case 180:
+      return { x: size.width - point.x, y: size.height - point.y };
+    case 270:
+      return { x: size.width - point.y, y: point.x };
+    default:
+      return point;
+  }
+};
+
+export const toDisplayRect = (
+  rect: PageRect,
+  size: PageSize,
+  rotation: Rotation
+): PageRect => {
+  const a = toDisplayPoint(rect, size, rotation);
+  const b = toDisplayPoint(
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    size,
+    rotation
+  );
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+};
+
+// PDF user space has its origin at the bottom-left corner of the page's box,
+// before the page's own rotation. Deep links and destinations use it.
+const userSpaceBox = (page: PageGeometry) => {
+  const { width, height } = rotatedSize(page, page.rotation);
+  return page.viewBox ?? [0, 0, width, height];
+};
+
+export const toUserSpace = (
+  point: PagePoint,
+  page: PageGeometry
+): PagePoint => {
+  const [left, bottom, right, top] = userSpaceBox(page);
+  switch (page.rotation) {
+    case 90:
+      return { x: left + point.y, y: bottom + point.x };
+    case 180:
+      return { x: right - point.x, y: bottom + point.y };
+    case 270:
+      return { x: right - point.y, y: top - point.x };
+    default:
+      return { x: left + point.x, y: top - point.y };
+  }
+};
+
+// A missing coordinate stays missing, on whichever axis it lands on
+export const fromUserSpace = (
+  point: Partial<PagePoint>,
+  page: PageGeometry
+): Partial<PagePoint> => {
+  const [left, bottom, right, top] = userSpaceBox(page);
+  const { x = 0, y = 0 } = point;
+  const hasX = point.x !== undefined;
+  const hasY = point.y !== undefined;
+  switch (page.rotation) {
+    case 90:
+      return {
+        ...(hasY && { x: y - bottom }),
+        ...(hasX && { y: x - left }),
+      };
+    case 180:
+      return {
+        ...(hasX && { x: right - x }),
+        ...(hasY && { y: y - bottom }),
+      };
+    case 270:
+      return {
+        ...(hasY && { x: top - y }),
+        ...(hasX && { y: right - x }),
+      };
+    default:
+      return {
+        ...(hasX && { x: x - left }),
+        ...(hasY && { y: top - y }),
+      };
+  }
+};
+
+// CSS transform that turns a page drawn at its page-space size the same way
+// toDisplayPoint does, with the origin at the top-left corner
+export const rotationTransform = (size: PageSize, rotation: Rotation) => {
+  switch (rotation) {
+    case 90:
+      return `translate(${size.height}px, 0) rotate(90deg)`;
+    case 180:
+      return `translate(${size.width}px, ${size.height}px) rotate(180deg)`;
+    case 270:
+      return `translate(0, ${size.width}px) rotate(270deg)`;
+    default:
+      return undefined;
+  }
+};
+
+const storageKey = (fileUrl: string) => `document-viewer:rotations:${fileUrl}`;
+
+export function loadRotations(fileUrl: string): PageRotations {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = window.localStorage.getItem(storageKey(fileUrl));
+    return stored ? (JSON.parse(stored) as PageRotations) : {};
+  } catch (error) {
+    console.error("Error reading page rotations:", error);
+    return {};
+  }
+}
+
+export function storeRotations(fileUrl: string, rotations: PageRotations) {
+  try {
+    if (Object.keys(rotations).length === 0) {
+      window.localStorage.removeItem(storageKey(fileUrl));
+    } else {
+      window.localStorage.setItem(
+        storageKey(fileUrl),
+        JSON.stringify(rotations)
+      );
+    }
+  } catch (error) {
+    console.error("Error saving page rotations:", error);
+  }
+}
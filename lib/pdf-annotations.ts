@@ -0,0 +1,79 @@
+import { PagePoint } from "@/lib/measurement";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+
+// Annotations stored inside the PDF file itself (as opposed to our own)
+export interface EmbeddedAnnotation {
+  id: string;
+  pageNumber: number;
+  subtype: string;
+  // Center of the annotation rectangle in PDF page space
+  point: PagePoint;
+  author: string | null;
+  contents: string;
+  modifiedAt: string | null;
+}
+
+// Interactive and structural annotations aren't review markup
+const IGNORED_SUBTYPES = new Set(["Link", "Widget", "Popup"]);
+
+interface RawAnnotation {
+  id: string;
+  subtype: string;
+  rect: [number, number, number, number];
+  contentsObj?: { str: string };
+  titleObj?: { str: string };
+  modificationDate?: string | null;
+}
+
+// PDF dates look like D:20240131154500+01'00'
+const parsePdfDate = (value?: string | null) => {
+  const match = value?.match(
+    /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?/
+  );
+  if (!match) return null;
+  const [
+    ,
+    year,
+    month = "01",
+    day = "01",
+    hour = "00",
+    min = "00",
+    sec = "00",
+  ] = match;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${min}:${sec}Z`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export async function loadEmbeddedAnnotations(
+  pdf: PDFDocumentProxy,
+  signal?: { cancelled: boolean }
+) {
+  const result: EmbeddedAnnotation[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    if (signal?.cancelled) break;
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const annotations: RawAnnotation[] = await page.getAnnotations({
+      intent: "display",
+    });
+
+    for (const annotation of annotations) {
+      if (IGNORED_SUBTYPES.has(annotation.subtype)) continue;
+      const [x1, y1, x2, y2] = annotation.rect;
+      const [x, y] = viewport.convertToViewportPoint(
+        (x1 + x2) / 2,
+        (y1 + y2) / 2
+      );
+      result.push({
+        id: `${pageNumber}:${annotation.id}`,
+        pageNumber,
+        subtype: annotation.subtype,
+        point: { x, y },
+        author: annotation.titleObj?.str || null,
+        contents: annotation.contentsObj?.str ?? "",
+        modifiedAt: parsePdfDate(annotation.modificationDate),
+      });
+    }
+  }
+  return result;
+}
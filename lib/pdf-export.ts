@@ -0,0 +1,520 @@
+import {
+  EncryptedPDFError,
+  PDFContext,
+  LineJoinStyle,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  appendBezierCurve,
+  beginText,
+  closePath,
+  endText,
+  fill,
+  fillAndStroke,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  setFillingRgbColor,
+  setFontAndSize,
+  setGraphicsState,
+  setLineJoin,
+  setLineWidth,
+  setStrokingRgbColor,
+  setTextMatrix,
+  showText,
+  stroke,
+} from "pdf-lib";
+import { DocumentAnnotations } from "@/lib/annotations";
+import { CommentThread } from "@/lib/comments";
+import {
+  Measurement,
+  PageCalibration,
+  PagePoint,
+  labelPosition,
+  measurementValue,
+} from "@/lib/measurement";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+
+// "annotations" writes standard PDF annotations that other apps can edit;
+// "flatten" draws the markup into the page content itself
+export type ExportMode = "annotations" | "flatten";
+
+type Color = [number, number, number];
+
+// The colors the viewer draws with
+const MEASUREMENT_COLOR: Color = [0.031, 0.569, 0.698];
+const COMMENT_COLOR: Color = [0.024, 0.714, 0.831];
+const RESOLVED_COLOR: Color = [0.612, 0.639, 0.686];
+const WHITE: Color = [1, 1, 1];
+const NOTE_BORDER: Color = [0.82, 0.84, 0.86];
+const TEXT_COLOR: Color = [0.07, 0.09, 0.15];
+
+const LINE_WIDTH = 1.5;
+const AREA_OPACITY = 0.15;
+const LABEL_SIZE = 9;
+const PIN_RADIUS = 9;
+const NOTE_WIDTH = 200;
+const NOTE_PADDING = 4;
+const NOTE_FONT_SIZE = 8;
+const NOTE_LINE_HEIGHT = 10;
+const NOTE_MAX_LINES = 6;
+// Bezier control point distance for a quarter circle
+const KAPPA = 0.5523;
+// Print, don't scale with zoom, don't rotate with the page
+const NOTE_FLAGS = 4 | 8 | 16;
+const PRINT_FLAG = 4;
+
+// Where markup is drawn: in user space, with text turned to read upright on
+// pages the PDF rotates
+interface Drawing {
+  font: PDFFont;
+  fontName: PDFName;
+  fillOpacityName: PDFName;
+  // Unit vectors of the page's reading direction and "up", in user space
+  across: PagePoint;
+  up: PagePoint;
+}
+
+const offset = (point: PagePoint, by: PagePoint, distance: number) => ({
+  x: point.x + by.x * distance,
+  y: point.y + by.y * distance,
+});
+
+// Standard fonts only cover Latin-1, so other characters become "?"
+const encodable = (font: PDFFont, text: string) => {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\s+/g, " "))
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+};
+
+const pathOperators = (points: PagePoint[], closed: boolean) => [
+  moveTo(points[0].x, points[0].y),
+  ...points.slice(1).map((p) => lineTo(p.x, p.y)),
+  ...(closed ? [closePath()] : []),
+];
+
+const circleOperators = (center: PagePoint, radius: number) => {
+  const { x, y } = center;
+  const k = radius * KAPPA;
+  return [
+    moveTo(x + radius, y),
+    appendBezierCurve(x + radius, y + k, x + k, y + radius, x, y + radius),
+    appendBezierCurve(x - k, y + radius, x - radius, y + k, x - radius, y),
+    appendBezierCurve(x - radius, y - k, x - k, y - radius, x, y - radius),
+    appendBezierCurve(x + k, y - radius, x + radius, y - k, x + radius, y),
+    closePath(),
+  ];
+};
+
+// Text starting at `origin`, or centered on it, optionally on a white box so
+// it stays readable over the drawing like the viewer's labels
+const textOperators = (
+  drawing: Drawing,
+  text: string,
+  origin: PagePoint,
+  size: number,
+  color: Color,
+  { centered = false, backed = false } = {}
+) => {
+  const { font, fontName, across, up } = drawing;
+  const safeText = encodable(font, text);
+  const width = font.widthOfTextAtSize(safeText, size);
+  const start = centered ? offset(origin, across, -width / 2) : origin;
+  const boxCorner = offset(offset(start, across, -2), up, -size * 0.3);
+  const box = [
+    boxCorner,
+    offset(boxCorner, across, width + 4),
+    offset(offset(boxCorner, across, width + 4), up, size * 1.2),
+    offset(boxCorner, up, size * 1.2),
+  ];
+  return [
+    pushGraphicsState(),
+    ...(backed
+      ? [setFillingRgbColor(...WHITE), ...pathOperators(box, true), fill()]
+      : []),
+    beginText(),
+    setFontAndSize(fontName, size),
+    setTextMatrix(across.x, across.y, up.x, up.y, start.x, start.y),
+    setFillingRgbColor(...color),
+    showText(font.encodeText(safeText)),
+    endText(),
+    popGraphicsState(),
+  ];
+};
+
+const measurementOperators = (
+  drawing: Drawing,
+  measurement: Measurement,
+  points: PagePoint[],
+  label: string,
+  labelAt: PagePoint
+) => {
+  const closed = measurement.kind === "area";
+  return [
+    ...(closed
+      ? [
+          pushGraphicsState(),
+          setGraphicsState(drawing.fillOpacityName),
+          setFillingRgbColor(...MEASUREMENT_COLOR),
+          ...pathOperators(points, true),
+          fill(),
+          popGraphicsState(),
+        ]
+      : []),
+    pushGraphicsState(),
+    setStrokingRgbColor(...MEASUREMENT_COLOR),
+    setLineWidth(LINE_WIDTH),
+    setLineJoin(LineJoinStyle.Round),
+    ...pathOperators(points, closed),
+    stroke(),
+    popGraphicsState(),
+    ...textOperators(
+      drawing,
+      label,
+      offset(labelAt, drawing.up, LABEL_SIZE * 0.6),
+      LABEL_SIZE,
+      MEASUREMENT_COLOR,
+      { centered: true, backed: true }
+    ),
+  ];
+};
+
+const wrapText = (font: PDFFont, text: string, size: number, width: number) => {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of encodable(font, text).split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length <= NOTE_MAX_LINES) return lines;
+  return [
+    ...lines.slice(0, NOTE_MAX_LINES - 1),
+    `${lines[NOTE_MAX_LINES - 1]}…`,
+  ];
+};
+
+// A numbered pin with the opening comment beside it, for flattened output
+const commentOperators = (
+  drawing: Drawing,
+  thread: CommentThread,
+  number: number,
+  at: PagePoint
+) => {
+  const { font, across, up } = drawing;
+  const color = thread.resolved ? RESOLVED_COLOR : COMMENT_COLOR;
+  const center = offset(at, up, PIN_RADIUS);
+  const [first, ...replies] = thread.messages;
+  const bodyLines = wrapText(
+    font,
+    `${first.author}: ${first.body}`,
+    NOTE_FONT_SIZE,
+    NOTE_WIDTH - NOTE_PADDING * 2
+  );
+  const lines = [
+    ...bodyLines,
+    ...(replies.length > 0
+      ? [`+${replies.length} ${replies.length === 1 ? "reply" : "replies"}`]
+      : []),
+    ...(thread.resolved ? ["Resolved"] : []),
+  ];
+
+  const noteHeight = lines.length * NOTE_LINE_HEIGHT + NOTE_PADDING * 2;
+  const noteTopLeft = offset(
+    offset(center, across, PIN_RADIUS + 4),
+    up,
+    PIN_RADIUS
+  );
+  const noteCorners = [
+    noteTopLeft,
+    offset(noteTopLeft, across, NOTE_WIDTH),
+    offset(offset(noteTopLeft, across, NOTE_WIDTH), up, -noteHeight),
+    offset(noteTopLeft, up, -noteHeight),
+  ];
+
+  return [
+    pushGraphicsState(),
+    setFillingRgbColor(...color),
+    setStrokingRgbColor(...WHITE),
+    setLineWidth(1.5),
+    ...circleOperators(center, PIN_RADIUS),
+    fillAndStroke(),
+    setFillingRgbColor(...WHITE),
+    setStrokingRgbColor(...NOTE_BORDER),
+    setLineWidth(0.5),
+    ...pathOperators(noteCorners, true),
+    fillAndStroke(),
+    popGraphicsState(),
+    ...textOperators(
+      drawing,
+      String(number),
+      offset(center, up, -NOTE_FONT_SIZE * 0.35),
+      NOTE_FONT_SIZE,
+      WHITE,
+      { centered: true }
+    ),
+    ...lines.flatMap((line, i) =>
+      textOperators(
+        drawing,
+        line,
+        offset(
+          offset(noteTopLeft, across, NOTE_PADDING),
+          up,
+          -(NOTE_PADDING + (i + 1) * NOTE_LINE_HEIGHT - 2)
+        ),
+        NOTE_FONT_SIZE,
+        i < bodyLines.length ? TEXT_COLOR : RESOLVED_COLOR
+      )
+    ),
+  ];
+};
+
+const boundingRect = (points: PagePoint[], padding: number) => {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return [
+    Math.min(...xs) - padding,
+    Math.min(...ys) - padding,
+    Math.max(...xs) + padding,
+    Math.max(...ys) + padding,
+  ];
+};
+
+const text = (value: string) => PDFHexString.fromText(value);
+const date = (value: string) => PDFString.fromDate(new Date(value));
+
+const MEASUREMENT_SUBTYPES = {
+  distance: { Subtype: "Line", IT: "LineDimension" },
+  polyline: { Subtype: "PolyLine", IT: "PolyLineDimension" },
+  area: { Subtype: "Polygon", IT: "PolygonDimension" },
+};
+
+// A Line, PolyLine or Polygon annotation, with an appearance that matches
+// the viewer so every app shows the same thing
+const measurementAnnotation = (
+  context: PDFContext,
+  drawing: Drawing,
+  fontRef: PDFRef,
+  measurement: Measurement,
+  points: PagePoint[],
+  label: string,
+  labelAt: PagePoint
+) => {
+  const labelWidth = drawing.font.widthOfTextAtSize(
+    encodable(drawing.font, label),
+    LABEL_SIZE
+  );
+  const rect = boundingRect(
+    [...points, labelAt],
+    Math.max(labelWidth / 2, LABEL_SIZE * 2) + LINE_WIDTH
+  );
+  const appearance = context.register(
+    context.formXObject(
+      measurementOperators(drawing, measurement, points, label, labelAt),
+      {
+        BBox: rect,
+        Resources: {
+          Font: { [drawing.fontName.decodeText()]: fontRef },
+          ExtGState: {
+            [drawing.fillOpacityName.decodeText()]: { ca: AREA_OPACITY },
+          },
+        },
+      }
+    )
+  );
+  const coordinates = points.flatMap((p) => [p.x, p.y]);
+  return context.register(
+    context.obj({
+      Type: "Annot",
+      ...MEASUREMENT_SUBTYPES[measurement.kind],
+      Rect: rect,
+      NM: text(measurement.id),
+      Contents: text(label),
+      CreationDate: date(measurement.createdAt),
+      M: date(measurement.createdAt),
+      F: PRINT_FLAG,
+      C: MEASUREMENT_COLOR,
+      BS: { W: LINE_WIDTH },
+      ...(measurement.kind === "distance"
+        ? { L: coordinates }
+        : { Vertices: coordinates }),
+      AP: { N: appearance },
+    })
+  );
+};
+
+// A sticky note per thread, with replies and the resolved state linked to
+// it the way PDF review tools do
+const commentAnnotations = (
+  context: PDFContext,
+  thread: CommentThread,
+  at: PagePoint
+) => {
+  const rect = [at.x - 10, at.y, at.x + 10, at.y + 20];
+  const [first, ...replies] = thread.messages;
+  const note = (fields: object) =>
+    context.register(
+      context.obj({
+        Type: "Annot",
+        Subtype: "Text",
+        Rect: rect,
+        F: NOTE_FLAGS,
+        C: thread.resolved ? RESOLVED_COLOR : COMMENT_COLOR,
+        ...fields,
+      })
+    );
+
+  const parent = note({
+    NM: text(thread.id),
+    Name: "Comment",
+    T: text(first.author),
+    Contents: text(first.body),
+    CreationDate: date(first.createdAt),
+    M: date(first.updatedAt ?? first.createdAt),
+  });
+  const refs = [
+    parent,
+    ...replies.map((reply) =>
+      note({
+        NM: text(reply.id),
+        IRT: parent,
+        RT: "R",
+        T: text(reply.author),
+        Contents: text(reply.body),
+        CreationDate: date(reply.createdAt),
+        M: date(reply.updatedAt ?? reply.createdAt),
+      })
+    ),
+  ];
+  if (thread.resolved) {
+    const last = thread.messages[thread.messages.length - 1];
+    refs.push(
+      note({
+        IRT: parent,
+        T: text(last.author),
+        Contents: text("Completed"),
+        State: text("Completed"),
+        StateModel: text("Review"),
+        M: date(last.updatedAt ?? last.createdAt),
+      })
+    );
+  }
+  return refs;
+};
+
+// The page's own content may leave the transformation or clip changed, so it
+// is wrapped in q/Q and the markup drawn after it starts from the default
+// graphics state, the way pdf-lib's translateContent does
+const isolatePageContent = (context: PDFContext, page: PDFPage) => {
+  page.node.normalize();
+  page.node.wrapContentStreams(
+    context.register(context.contentStream([pushGraphicsState()])),
+    context.register(context.contentStream([popGraphicsState()]))
+  );
+};
+
+// A copy of the PDF with our comments and measurements written in. Points
+// are converted from page space with pdf.js, which knows each page's crop
+// box and rotation.
+export async function exportAnnotatedPdf(
+  pdf: PDFDocumentProxy,
+  annotations: DocumentAnnotations,
+  mode: ExportMode
+) {
+  let document: PDFDocument;
+  try {
+    document = await PDFDocument.load(await pdf.getData());
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new Error("Password-protected PDFs can't be exported with markup");
+    }
+    throw error;
+  }
+  const { context } = document;
+  const font = await document.embedFont(StandardFonts.Helvetica);
+  const pages = document.getPages();
+  const threads = annotations.comments.filter((t) => t.messages.length > 0);
+
+  for (let pageNumber = 1; pageNumber <= pages.length; pageNumber++) {
+    const measurements = annotations.measurements.filter(
+      (m) => m.pageNumber === pageNumber
+    );
+    const pageThreads = threads.filter((t) => t.pageNumber === pageNumber);
+    if (measurements.length === 0 && pageThreads.length === 0) continue;
+
+    const page = pages[pageNumber - 1];
+    if (mode === "flatten") isolatePageContent(context, page);
+    const viewport = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 });
+    const toUserSpace = (point: PagePoint): PagePoint => {
+      const [x, y] = viewport.convertToPdfPoint(point.x, point.y);
+      return { x, y };
+    };
+    const angle = (viewport.rotation * Math.PI) / 180;
+    const drawing: Drawing = {
+      font,
+      fontName:
+        mode === "flatten"
+          ? page.node.newFontDictionary("Markup", font.ref)
+          : PDFName.of("Markup"),
+      fillOpacityName:
+        mode === "flatten"
+          ? page.node.newExtGState("Markup", context.obj({ ca: AREA_OPACITY }))
+          : PDFName.of("MarkupFill"),
+      across: { x: Math.cos(angle), y: Math.sin(angle) },
+      up: { x: -Math.sin(angle), y: Math.cos(angle) },
+    };
+    const calibration: PageCalibration | undefined =
+      annotations.calibrations[pageNumber];
+
+    for (const measurement of measurements) {
+      if (measurement.points.length < 2) continue;
+      const points = measurement.points.map(toUserSpace);
+      const label = measurementValue(measurement, calibration);
+      const labelAt = toUserSpace(
+        labelPosition(measurement.points, measurement.kind === "area")
+      );
+      if (mode === "flatten") {
+        page.pushOperators(
+          ...measurementOperators(drawing, measurement, points, label, labelAt)
+        );
+      } else {
+        page.node.addAnnot(
+          measurementAnnotation(
+            context,
+            drawing,
+            font.ref,
+            measurement,
+            points,
+            label,
+            labelAt
+          )
+        );
+      }
+    }
+
+    pageThreads.forEach((thread, index) => {
+      const at = toUserSpace(thread.position);
+      if (mode === "flatten") {
+        page.pushOperators(...commentOperators(drawing, thread, index + 1, at));
+      } else {
+        commentAnnotations(context, thread, at).forEach((ref) =>
+          page.node.addAnnot(ref)
+        );
+      }
+    });
+  }
+
+  return document.save();
+}
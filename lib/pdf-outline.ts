@@ -0,0 +1,113 @@
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+import { PagePoint } from "@/lib/measurement";
+
+type RawOutlineItem = Awaited<
+  ReturnType<PDFDocumentProxy["getOutline"]>
+>[number];
+
+export interface OutlineNode {
+  id: string;
+  title: string;
+  bold: boolean;
+  italic: boolean;
+  dest: string | unknown[] | null;
+  url: string | null;
+  // pdf.js reports a positive count for entries that start expanded
+  initiallyOpen: boolean;
+  children: OutlineNode[];
+}
+
+export interface DestinationTarget {
+  pageNumber: number;
+  // Position on the page in PDF page space; a missing axis means "keep as is"
+  point: Partial<PagePoint>;
+}
+
+const toNodes = (items: RawOutlineItem[], parentId: string): OutlineNode[] =>
+  items.map((item, index) => {
+    const id = `${parentId}${index}`;
+    return {
+      id,
+      title: item.title,
+      bold: item.bold,
+      italic: item.italic,
+      dest: item.dest,
+      url: item.url,
+      initiallyOpen: (item.count ?? 0) > 0,
+      children: toNodes(item.items ?? [], `${id}.`),
+    };
+  });
+
+export async function loadOutline(pdf: PDFDocumentProxy) {
+  const outline = await pdf.getOutline();
+  return outline ? toNodes(outline, "") : [];
+}
+
+const isRef = (value: unknown): value is { num: number; gen: number } =>
+  typeof value === "object" &&
+  value !== null &&
+  "num" in value &&
+  "gen" in value;
+
+const asCoordinate = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+// Resolves a named or explicit destination to a page and an anchor point
+export async function resolveDestination(
+  pdf: PDFDocumentProxy,
+  dest: string | unknown[] | null
+): Promise<DestinationTarget | null> {
+  const explicitDest =
+    typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+  if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null;
+
+  const [pageRef, view, ...args] = explicitDest;
+  let pageIndex: number;
+  if (isRef(pageRef)) {
+    pageIndex = await pdf.getPageIndex(pageRef);
+  } else if (Number.isInteger(pageRef)) {
+    pageIndex = pageRef as number;
+  } else {
+    return null;
+  }
+
+  const pageNumber = pageIndex + 1;
+  if (pageNumber < 1 || pageNumber > pdf.numPages) return null;
+
+  // Destination coordinates are in PDF user space (origin bottom-left)
+  let left: number | null = null;
+  let top: number | null = null;
+  switch ((view as { name?: string } | undefined)?.name) {
+    case "XYZ":
+      left = asCoordinate(args[0]);
+      top = asCoordinate(args[1]);
+      break;
+    case "FitH":
+    case "FitBH":
+      top = asCoordinate(args[0]);
+      break;
+    case "FitV":
+    case "FitBV":
+      left = asCoordinate(args[0]);
+      break;
+    case "FitR":
+      left = asCoordinate(args[0]);
+      top = asCoordinate(args[3]);
+      break;
+  }
+
+  if (left === null && top === null) {
+    return { pageNumber, point: {} };
+  }
+
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const [x, y] = viewport.convertToViewportPoint(left ?? 0, top ?? 0);
+  return {
+    pageNumber,
+    point: {
+      ...(left !== null && { x }),
+      ...(top !== null && { y }),
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import { pdfjs } from "react-pdf";
+import { Rotation } from "@/lib/page-rotation";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+
+// Pages are drawn for the printer rather than taken from the screen, which
+// only has them at the current zoom
+export const PRINT_DPI = 300;
+// Browsers refuse canvases much bigger than this
+const MAX_PRINT_PIXELS = 16_000_000;
+// A print() call taking this long was held up by the dialog
+const BLOCKING_PRINT_MS = 500;
+// Printing counts as done after this, for browsers that never say so
+const PRINT_TIMEOUT_MS = 60_000;
+
+const PRINT_STYLES = `
+  @page { margin: 0; }
+  html, body { margin: 0; padding: 0; }
+  .page {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    width: 100vw;
+    height: 100vh;
+    overflow: hidden;
+    break-after: page;
+  }
+  .page:last-child { break-after: auto; }
+  .page img { max-width: 100%; max-height: 100%; }
+`;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not draw the page")),
+      "image/png"
+    )
+  );
+
+const renderForPrint = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  rotation: Rotation
+) => {
+  const page = await pdf.getPage(pageNumber);
+  const pageRotation = (page.rotate + rotation) % 360;
+  const { width, height } = page.getViewport({
+    scale: 1,
+    rotation: pageRotation,
+  });
+  const scale = Math.min(
+    PRINT_DPI / 72,
+    Math.sqrt(MAX_PRINT_PIXELS / (width * height))
+  );
+  const viewport = page.getViewport({ scale, rotation: pageRotation });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not draw the page");
+  // The print intent leaves out annotations that aren't meant for paper
+  await page.render({ canvasContext: context, viewport, intent: "print" })
+    .promise;
+  return canvasToBlob(canvas);
+};
+
+// Browsers end printing differently: print() blocks until the dialog closes,
+// the frame gets afterprint, or the page just gets focus back. The wait ends
+// with whichever comes first.
+const printFrame = (frameWindow: Window) =>
+  new Promise<void>((resolve) => {
+    const finish = () => {
+      clearTimeout(timeout);
+      frameWindow.removeEventListener("afterprint", finish);
+      window.removeEventListener("focus", finish);
+      resolve();
+    };
+    const timeout = setTimeout(finish, PRINT_TIMEOUT_MS);
+    frameWindow.addEventListener("afterprint", finish);
+    frameWindow.focus();
+    const startedAt = Date.now();
+    frameWindow.print();
+    if (Date.now() - startedAt >= BLOCKING_PRINT_MS) finish();
+    else window.addEventListener("focus", finish);
+  });
+
+// Prints the given pages through a hidden frame, so the browser's print
+// dialog shows just the document. Resolves once the dialog has closed.
+export async function printPages(
+  pdf: PDFDocumentProxy,
+  pageNumbers: number[],
+  rotationOf: (pageNumber: number) => Rotation = () => 0
+) {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.cssText =
+    "position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;";
+  document.body.appendChild(frame);
+  const imageUrls: string[] = [];
+
+  try {
+    const frameDocument = frame.contentDocument!;
+    const style = frameDocument.createElement("style");
+    style.textContent = PRINT_STYLES;
+    frameDocument.head.appendChild(style);
+
+    for (const pageNumber of pageNumbers) {
+      const blob = await renderForPrint(
+        pdf,
+        pageNumber,
+        rotationOf(pageNumber)
+      );
+      const url = URL.createObjectURL(blob);
+      imageUrls.push(url);
+      const container = frameDocument.createElement("div");
+      container.className = "page";
+      const image = frameDocument.createElement("img");
+      image.src = url;
+      image.alt = `Page ${pageNumber}`;
+      container.appendChild(image);
+      frameDocument.body.appendChild(container);
+      await image.decode();
+    }
+
+    await printFrame(frame.contentWindow!);
+  } finally {
+    frame.remove();
+    imageUrls.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
+
+// Prints from PDF bytes instead of a loaded document, such as an export with
+// the markup flattened in
+export async function printPdfData(
+  data: Uint8Array,
+  pageNumbers: number[],
+  rotationOf?: (pageNumber: number) => Rotation
+) {
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    await printPages(pdf, pageNumbers, rotationOf);
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,406 @@
+import { promises as dns } from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+// Server-only: fetches remote PDFs for the proxy route without letting it
+// reach the server's own network
+
+// Comma-separated hosts the proxy may fetch from, e.g. "example.com,
+// *.cdn.example.com". When unset, any public host is allowed.
+const ALLOWED_HOSTS = (process.env.PROXY_ALLOWED_HOSTS ?? "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+// Bodies are streamed through, so the limit is on file size, not memory
+const MAX_RESPONSE_BYTES =
+  Number(process.env.PROXY_MAX_BYTES) || 500 * 1024 * 1024;
+// How long the upstream server may go without sending anything
+const UPSTREAM_TIMEOUT_MS = Number(process.env.PROXY_TIMEOUT_MS) || 15_000;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+// PDF readers accept the header anywhere in the first kilobyte
+const PDF_HEADER = Buffer.from("%PDF-");
+const PDF_HEADER_WINDOW = 1024;
+// URLs whose start was seen to be a PDF, most recent last. Ranges from the
+// middle of these files are passed through without fetching the start again.
+const knownPdfs = new Set<string>();
+const MAX_KNOWN_PDFS = 1000;
+
+// Loopback, private, link-local, shared, documentation, multicast and
+// reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4
+// ranges; the other IPv6 forms that wrap an IPv4 address (IPv4-compatible,
+// Teredo, 6to4) are blocked outright.
+const BLOCKED_ADDRESSES = new net.BlockList();
+const BLOCKED_SUBNETS: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.0.2.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["198.51.100.0", 24, "ipv4"],
+  ["203.0.113.0", 24, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 96, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"],
+  ["2001::", 32, "ipv6"],
+  ["2001:db8::", 32, "ipv6"],
+  ["2002::", 16, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+BLOCKED_SUBNETS.forEach(([address, prefix, type]) =>
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, type)
+);
+
+export class ProxyError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: object
+  ) {
+    super(message);
+    this.name = "ProxyError";
+  }
+}
+
+interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+const isAllowedHost = (hostname: string) =>
+  ALLOWED_HOSTS.length === 0 ||
+  ALLOWED_HOSTS.some((pattern) =>
+    pattern.startsWith("*.")
+      ? hostname.endsWith(pattern.slice(1))
+      : hostname === pattern
+  );
+
+const isBlockedAddress = ({ address, family }: ResolvedAddress) =>
+  BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+
+export const parseUpstreamUrl = (value: string | null) => {
+  if (!value) {
+    throw new ProxyError(400, "missing_url", "Missing url parameter");
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ProxyError(400, "invalid_url", "The url parameter is not a URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ProxyError(
+      400,
+      "unsupported_scheme",
+      "Only http and https URLs can be proxied"
+    );
+  }
+  if (url.username || url.password) {
+    throw new ProxyError(
+      400,
+      "invalid_url",
+      "URLs with credentials are not allowed"
+    );
+  }
+  return url;
+};
+
+// Resolves the host once and checks every address it has, so the connection
+// can be pinned to an address that was checked
+const resolveHost = async (url: URL): Promise<ResolvedAddress> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (!isAllowedHost(hostname)) {
+    throw new ProxyError(
+      403,
+      "host_not_allowed",
+      `Host ${hostname} is not on the allowlist`
+    );
+  }
+
+  let addresses: ResolvedAddress[];
+  const family = net.isIP(hostname);
+  if (family) {
+    addresses = [{ address: hostname, family }];
+  } else {
+    try {
+      addresses = await dns.lookup(hostname, { all: true });
+    } catch {
+      throw new ProxyError(
+        502,
+        "unresolvable_host",
+        `Could not resolve ${hostname}`
+      );
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new ProxyError(
+      403,
+      "blocked_address",
+      `Host ${hostname} resolves to a private or reserved address`
+    );
+  }
+  return addresses[0];
+};
+
+// The allowlist and address checks without a request, for answers that don't
+// go upstream such as cache hits. A host that can't be resolved right now
+// passes, so cached documents outlast a DNS outage.
+export async function checkUpstreamHost(url: URL) {
+  try {
+    await resolveHost(url);
+  } catch (error) {
+    if (error instanceof ProxyError && error.code === "unresolvable_host") {
+      return;
+    }
+    throw error;
+  }
+}
+
+const request = (
+  url: URL,
+  { address, family }: ResolvedAddress,
+  headers: http.OutgoingHttpHeaders
+) =>
+  new Promise<http.IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const upstreamRequest = client.request(url, {
+      headers,
+      timeout: UPSTREAM_TIMEOUT_MS,
+      // Connect to the checked address instead of resolving the host again,
+      // which a rebinding DNS server could answer differently
+      lookup: ((_hostname, options, callback) => {
+        if (options.all) callback(null, [{ address, family }]);
+        else callback(null, address, family);
+      }) as net.LookupFunction,
+    });
+    upstreamRequest.on("response", resolve);
+    upstreamRequest.on("timeout", () =>
+      upstreamRequest.destroy(
+        new ProxyError(504, "upstream_timeout", "The upstream server timed out")
+      )
+    );
+    upstreamRequest.on("error", reject);
+    upstreamRequest.end();
+  });
+
+const upstreamFailure = (error: unknown) =>
+  error instanceof ProxyError
+    ? error
+    : new ProxyError(
+        502,
+        "upstream_unreachable",
+        "Could not reach the upstream server"
+      );
+
+// Follows redirects, checking each hop like the first URL, and returns the
+// final successful response, or a 304 for a conditional request
+export async function openUpstream(
+  url: URL,
+  headers: http.OutgoingHttpHeaders
+) {
+  let current = url;
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const address = await resolveHost(current);
+      const response = await request(current, address, headers);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+
+      if (REDIRECT_STATUSES.includes(status) && location) {
+        response.resume();
+        if (redirects === MAX_REDIRECTS) {
+          throw new ProxyError(502, "too_many_redirects", "Too many redirects");
+        }
+        current = parseUpstreamUrl(new URL(location, current).toString());
+        continue;
+      }
+      if (status === 304) return response;
+      if (status === 416) {
+        response.resume();
+        throw new ProxyError(
+          416,
+          "range_not_satisfiable",
+          "The requested range is outside the document"
+        );
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new ProxyError(
+          502,
+          "upstream_status",
+          `The upstream server responded with ${status}`,
+          { upstreamStatus: status }
+        );
+      }
+      return response;
+    }
+  } catch (error) {
+    throw upstreamFailure(error);
+  }
+}
+
+const tooLarge = () =>
+  new ProxyError(
+    413,
+    "too_large",
+    `The document is larger than ${MAX_RESPONSE_BYTES} bytes`,
+    { maxBytes: MAX_RESPONSE_BYTES }
+  );
+
+// "bytes 0-1023/4096" gives the range start and the file size
+const parseContentRange = (header: string | undefined) => {
+  const match = header?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+  return match
+    ? { start: Number(match[1]), size: Number(match[2]) || null }
+    : null;
+};
+
+// Sent with every document, whether from upstream or the cache. Browsers
+// check back each time, which their ETag makes cheap.
+export const DOCUMENT_HEADERS = {
+  "Content-Type": "application/pdf",
+  "Content-Disposition": 'inline; filename="document.pdf"',
+  "Cache-Control": "public, no-cache",
+};
+
+// Headers for the browser. Ranges are only advertised when the upstream
+// server supports them, which is what lets pdf.js load pages on demand.
+export const responseHeaders = (response: http.IncomingMessage) => {
+  const isPartial = response.statusCode === 206;
+  const headers: Record<string, string> = { ...DOCUMENT_HEADERS };
+  const contentLength = response.headers["content-length"];
+  if (contentLength) headers["Content-Length"] = contentLength;
+  if (isPartial || response.headers["accept-ranges"] === "bytes") {
+    headers["Accept-Ranges"] = "bytes";
+  }
+  const contentRange = response.headers["content-range"];
+  if (isPartial && contentRange) headers["Content-Range"] = contentRange;
+  return headers;
+};
+
+const assertPdf = (url: URL, head: Buffer, response: http.IncomingMessage) => {
+  if (!head.subarray(0, PDF_HEADER_WINDOW).includes(PDF_HEADER)) {
+    response.destroy();
+    throw new ProxyError(415, "not_a_pdf", "The upstream file is not a PDF");
+  }
+  knownPdfs.delete(url.href);
+  knownPdfs.add(url.href);
+  if (knownPdfs.size > MAX_KNOWN_PDFS) {
+    knownPdfs.delete(knownPdfs.values().next().value as string);
+  }
+};
+
+// Reads chunks until the header window is covered or the body ends
+const readHead = async (nextChunk: () => Promise<Buffer | null>) => {
+  const head: Buffer[] = [];
+  let headLength = 0;
+  while (headLength < PDF_HEADER_WINDOW) {
+    const chunk = await nextChunk();
+    if (!chunk) return { head, isComplete: true };
+    head.push(chunk);
+    headLength += chunk.length;
+  }
+  return { head, isComplete: false };
+};
+
+// A range from the middle of a file says nothing about what the file is, so
+// its start is fetched on its own unless it was seen before
+const assertPdfStart = async (url: URL) => {
+  if (knownPdfs.has(url.href)) return;
+  const probe = await openUpstream(url, {
+    Accept: "application/pdf",
+    Range: `bytes=0-${PDF_HEADER_WINDOW - 1}`,
+  });
+  const chunks = probe[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+  try {
+    const { head } = await readHead(async () => {
+      const { done, value } = await chunks.next();
+      return done ? null : value;
+    });
+    assertPdf(url, Buffer.concat(head), probe);
+  } finally {
+    // Servers that ignore the range would send the whole file
+    probe.destroy();
+  }
+};
+
+// Streams the body to the browser, stopping at the size limit. The start of
+// the file is checked first so a file that is not a PDF can still be answered
+// with an error.
+export async function streamUpstreamBody(
+  url: URL,
+  response: http.IncomingMessage
+): Promise<ReadableStream<Uint8Array>> {
+  const range = parseContentRange(response.headers["content-range"]);
+  const declaredSize =
+    response.statusCode === 206
+      ? range?.size
+      : Number(response.headers["content-length"]);
+  if (declaredSize && declaredSize > MAX_RESPONSE_BYTES) {
+    response.destroy();
+    throw tooLarge();
+  }
+
+  const chunks = response[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+  let length = 0;
+  const nextChunk = async () => {
+    const { done, value } = await chunks.next();
+    if (done) return null;
+    length += value.length;
+    if (length > MAX_RESPONSE_BYTES) throw tooLarge();
+    return value;
+  };
+
+  let head: Buffer[] = [];
+  let isComplete = false;
+  try {
+    if (response.statusCode === 200 || range?.start === 0) {
+      ({ head, isComplete } = await readHead(nextChunk));
+      const start = Buffer.concat(head);
+      // A short range from the start may end before the header does
+      const isShortRange =
+        response.statusCode === 206 &&
+        isComplete &&
+        start.length < PDF_HEADER_WINDOW &&
+        !start.includes(PDF_HEADER);
+      if (isShortRange) await assertPdfStart(url);
+      else assertPdf(url, start, response);
+    } else {
+      await assertPdfStart(url);
+    }
+  } catch (error) {
+    response.destroy();
+    throw upstreamFailure(error);
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      head.forEach((chunk) => controller.enqueue(chunk));
+      if (isComplete) controller.close();
+    },
+    async pull(controller) {
+      try {
+        const chunk = await nextChunk();
+        if (chunk) controller.enqueue(chunk);
+        else controller.close();
+      } catch (error) {
+        response.destroy();
+        controller.error(upstreamFailure(error));
+      }
+    },
+    // The browser hung up, e.g. pdf.js switching to range requests
+    cancel() {
+      response.destroy();
+    },
+  });
+}
@@ -0,0 +1,133 @@
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+
+// Rectangle in PDF page space (points, origin top-left)
+export interface PageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  pageNumber: number;
+  // Index of the match within its page
+  index: number;
+  rects: PageRect[];
+}
+
+interface PositionedItem {
+  start: number;
+  end: number;
+  // Quadrilateral of the item's text run in viewport coordinates
+  rect: PageRect;
+  vertical: boolean;
+}
+
+export interface PageText {
+  text: string;
+  items: PositionedItem[];
+}
+
+interface RawTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL?: boolean;
+}
+
+export async function extractPageText(
+  pdf: PDFDocumentProxy,
+  pageNumber: number
+): Promise<PageText> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+
+  let text = "";
+  const items: PositionedItem[] = [];
+  for (const raw of content.items) {
+    if (!("str" in raw)) continue;
+    const item = raw as RawTextItem;
+    const [, b, c, d, e, f] = item.transform;
+    // Font size along the text's vertical axis, used when height is missing
+    const fontHeight = item.height || Math.hypot(c, d);
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+      e,
+      f,
+      e + item.width,
+      f + fontHeight,
+    ]);
+    const start = text.length;
+    text += item.str;
+    items.push({
+      start,
+      end: text.length,
+      rect: {
+        x: Math.min(x1, x2),
+        y: Math.min(y1, y2),
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+      },
+      vertical: Math.abs(b) > Math.abs(d),
+    });
+    // Keep words on separate lines from running together
+    if (item.hasEOL) text += " ";
+  }
+
+  return { text, items };
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const buildSearchPattern = (query: string, options: SearchOptions) => {
+  const source = query.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+  const bounded = options.wholeWord
+    ? `(?<![\\p{L}\\p{N}_])${source}(?![\\p{L}\\p{N}_])`
+    : source;
+  return new RegExp(bounded, options.caseSensitive ? "gu" : "giu");
+};
+
+// Map a character range of the page text back onto item rectangles
+const rectsForRange = (pageText: PageText, start: number, end: number) =>
+  pageText.items
+    .filter((item) => item.start < end && item.end > start)
+    .map((item) => {
+      const length = item.end - item.start || 1;
+      const from = (Math.max(start, item.start) - item.start) / length;
+      const to = (Math.min(end, item.end) - item.start) / length;
+      const { x, y, width, height } = item.rect;
+      return item.vertical
+        ? { x, y: y + height * from, width, height: height * (to - from) }
+        : { x: x + width * from, y, width: width * (to - from), height };
+    });
+
+export const findInPage = (
+  pageText: PageText,
+  pageNumber: number,
+  pattern: RegExp
+): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+  pattern.lastIndex = 0;
+  for (const match of Array.from(pageText.text.matchAll(pattern))) {
+    const start = match.index ?? 0;
+    if (match[0].length === 0) continue;
+    matches.push({
+      pageNumber,
+      index: matches.length,
+      rects: rectsForRange(pageText, start, start + match[0].length),
+    });
+  }
+  return matches;
+};
+
+export const rectCenter = (rect: PageRect) => ({
+  x: rect.x + rect.width / 2,
+  y: rect.y + rect.height / 2,
+});
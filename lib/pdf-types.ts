@@ -0,0 +1,11 @@
+import type { DocumentProps, PageProps } from "react-pdf";
+
+// pdf.js types as bundled with react-pdf, which can be a different version
+// than the top-level pdfjs-dist dependency
+export type PDFDocumentProxy = Parameters<
+  NonNullable<DocumentProps["onLoadSuccess"]>
+>[0];
+
+export type PDFPageProxy = Parameters<
+  NonNullable<PageProps["onLoadSuccess"]>
+>[0];
@@ -0,0 +1,418 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import type http from "http";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { ProxyError, openUpstream, streamUpstreamBody } from "@/lib/pdf-proxy";
+
+// Server-only: proxied documents are kept on disk, as a body file and a
+// metadata file per upstream URL
+const CACHE_DIR =
+  process.env.PROXY_CACHE_DIR ??
+  path.join(process.cwd(), ".data", "proxy-cache");
+// Least recently used documents are evicted to stay under this size
+export const MAX_CACHE_BYTES =
+  Number(process.env.PROXY_CACHE_MAX_BYTES) || 2 * 1024 * 1024 * 1024;
+// Documents are served without asking the upstream server for this long,
+// since pdf.js makes many range requests for each view
+const FRESH_MS = (Number(process.env.PROXY_CACHE_FRESH_SECONDS) || 300) * 1000;
+// Access times are kept in memory and written at most this often per entry,
+// rather than on each of those range requests
+const ACCESS_WRITE_MS = 60_000;
+// A document that couldn't be revalidated is served as it is for this long
+// before the upstream server is asked again
+const RECHECK_MS = Math.min(30_000, FRESH_MS);
+
+export interface CacheEntry {
+  key: string;
+  url: string;
+  size: number;
+  // Upstream validators, sent back when revalidating
+  etag: string | null;
+  lastModified: string | null;
+  storedAt: string;
+  validatedAt: string;
+  lastAccessedAt: string;
+}
+
+export type ByteRange = { start: number; end: number } | "unsatisfiable";
+
+const cacheKey = (url: string) =>
+  createHash("sha256").update(url).digest("hex");
+const bodyFile = (key: string) => path.join(CACHE_DIR, `${key}.pdf`);
+const entryFile = (key: string) => path.join(CACHE_DIR, `${key}.json`);
+// Concurrent writers each get their own temporary file
+const tempFileFor = (file: string) => `${file}.${randomUUID()}.tmp`;
+
+// Loaded from disk once per process, then kept in step with it
+let index: Promise<Map<string, CacheEntry>> | null = null;
+// When each entry's access time was last written
+const accessWrittenAt = new Map<string, number>();
+// When stale entries that are being or failed to be revalidated are checked
+// again; until then they are served without waiting on upstream
+const recheckAfter = new Map<string, number>();
+
+const loadIndex = () => {
+  index ??= (async () => {
+    const entries = new Map<string, CacheEntry>();
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(CACHE_DIR);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+    for (const name of names.filter((name) => name.endsWith(".json"))) {
+      try {
+        const entry = JSON.parse(
+          await fs.readFile(path.join(CACHE_DIR, name), "utf8")
+        ) as CacheEntry;
+        entries.set(entry.key, entry);
+      } catch (error) {
+        console.error(`Error reading cache entry ${name}:`, error);
+      }
+    }
+    return entries;
+  })();
+  return index;
+};
+
+const saveEntry = async (entry: CacheEntry) => {
+  (await loadIndex()).set(entry.key, entry);
+  const tempFile = tempFileFor(entryFile(entry.key));
+  await fs.writeFile(tempFile, JSON.stringify(entry, null, 2));
+  await fs.rename(tempFile, entryFile(entry.key));
+};
+
+export async function removeEntry(key: string) {
+  const entries = await loadIndex();
+  if (!entries.delete(key)) return false;
+  accessWrittenAt.delete(key);
+  recheckAfter.delete(key);
+  // Readers that already opened the body keep reading it
+  await fs.rm(entryFile(key), { force: true });
+  await fs.rm(bodyFile(key), { force: true });
+  return true;
+}
+
+export async function listEntries() {
+  const entries = Array.from((await loadIndex()).values());
+  return entries.sort(
+    (a, b) => Date.parse(b.lastAccessedAt) - Date.parse(a.lastAccessedAt)
+  );
+}
+
+export async function purgeCache() {
+  const entries = await listEntries();
+  await Promise.all(entries.map((entry) => removeEntry(entry.key)));
+  return entries.length;
+}
+
+export const findEntry = async (url: string) =>
+  (await loadIndex()).get(cacheKey(url)) ?? null;
+
+// Evicts the least recently used documents until `size` more bytes fit
+const makeRoom = async (size: number) => {
+  const entries = await listEntries();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries.reverse()) {
+    if (total + size <= MAX_CACHE_BYTES) break;
+    await removeEntry(entry.key);
+    total -= entry.size;
+  }
+};
+
+// ETag the browser sees. It changes whenever the upstream document does, and
+// matches between cached and passed-through responses.
+export const browserEtag = (
+  url: string,
+  validator: string | null | undefined
+) =>
+  validator
+    ? `"${createHash("sha256")
+        .update(`${url}\n${validator}`)
+        .digest("base64url")}"`
+    : null;
+
+export const entryEtag = (entry: CacheEntry) =>
+  browserEtag(entry.url, entry.etag ?? entry.lastModified ?? entry.storedAt);
+
+const upstreamValidators = (response: http.IncomingMessage) => ({
+  etag: response.headers.etag ?? null,
+  lastModified: response.headers["last-modified"] ?? null,
+});
+
+export const responseEtag = (url: string, response: http.IncomingMessage) => {
+  const { etag, lastModified } = upstreamValidators(response);
+  return browserEtag(url, etag ?? lastModified);
+};
+
+// Downloads in progress, so each document is fetched into the cache once
+const fills = new Map<string, Promise<void>>();
+// When documents that failed to cache or don't fit may be tried again
+const retryAfter = new Map<string, number>();
+
+type Validators = ReturnType<typeof upstreamValidators>;
+
+// Moves a downloaded body into the cache, making room for it
+const storeBody = async (
+  url: URL,
+  key: string,
+  tempFile: string,
+  validators: Validators
+) => {
+  const { size } = await fs.stat(tempFile);
+  if (size > MAX_CACHE_BYTES) {
+    retryAfter.set(key, Date.now() + FRESH_MS);
+    return;
+  }
+  await removeEntry(key);
+  await makeRoom(size);
+  await fs.rename(tempFile, bodyFile(key));
+
+  const now = new Date().toISOString();
+  await saveEntry({
+    key,
+    url: url.href,
+    size,
+    ...validators,
+    storedAt: now,
+    validatedAt: now,
+    lastAccessedAt: now,
+  });
+};
+
+const fillEntry = async (
+  url: URL,
+  key: string,
+  response?: http.IncomingMessage
+) => {
+  const upstream =
+    response ?? (await openUpstream(url, { Accept: "application/pdf" }));
+  if (Number(upstream.headers["content-length"]) > MAX_CACHE_BYTES) {
+    upstream.destroy();
+    retryAfter.set(key, Date.now() + FRESH_MS);
+    return;
+  }
+  const validators = upstreamValidators(upstream);
+  const body = await streamUpstreamBody(url, upstream);
+
+  // Written under a temporary name so readers never see a partial file
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+  const tempFile = tempFileFor(bodyFile(key));
+  try {
+    await pipeline(
+      Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+      createWriteStream(tempFile)
+    );
+    await storeBody(url, key, tempFile, validators);
+  } finally {
+    await fs.rm(tempFile, { force: true });
+  }
+};
+
+const canFill = (key: string) =>
+  !fills.has(key) && (retryAfter.get(key) ?? 0) <= Date.now();
+
+const trackFill = (key: string, fill: Promise<void>) => {
+  retryAfter.delete(key);
+  fills.set(
+    key,
+    fill
+      .catch((error) => {
+        console.error("Error caching document:", error);
+        retryAfter.set(key, Date.now() + FRESH_MS);
+      })
+      .finally(() => fills.delete(key))
+  );
+};
+
+// Fills the cache in the background, from the given upstream response or a
+// new request. Browsers may only ever ask for ranges, which can't be stored.
+export function cacheDocument(url: URL, response?: http.IncomingMessage) {
+  const key = cacheKey(url.href);
+  if (!canFill(key)) {
+    response?.destroy();
+    return;
+  }
+  trackFill(key, fillEntry(url, key, response));
+}
+
+// Passes a whole document from upstream to the browser and writes it to the
+// cache on the way. Each chunk is written before the next one is read, and
+// only read when the browser asks for it, so a slow browser slows the copy
+// down rather than having the document pile up in memory.
+export function cacheWhileStreaming(
+  url: URL,
+  response: http.IncomingMessage,
+  body: ReadableStream<Uint8Array>
+): ReadableStream<Uint8Array> {
+  const key = cacheKey(url.href);
+  if (
+    Number(response.headers["content-length"]) > MAX_CACHE_BYTES ||
+    !canFill(key)
+  ) {
+    return body;
+  }
+
+  const validators = upstreamValidators(response);
+  const tempFile = tempFileFor(bodyFile(key));
+  const file = fs
+    .mkdir(CACHE_DIR, { recursive: true })
+    .then(() => fs.open(tempFile, "w"));
+  // Failures surface where the file is used
+  file.catch(() => {});
+  let isCaching = true;
+  let finish: (isComplete: boolean) => void = () => {};
+  const finished = new Promise<boolean>((resolve) => (finish = resolve));
+  const stopCaching = (isComplete: boolean) => {
+    if (!isCaching) return;
+    isCaching = false;
+    finish(isComplete);
+  };
+  trackFill(
+    key,
+    finished.then(async (isComplete) => {
+      try {
+        await (await file).close();
+        if (isComplete) await storeBody(url, key, tempFile, validators);
+      } finally {
+        await fs.rm(tempFile, { force: true });
+      }
+    })
+  );
+
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        stopCaching(false);
+        controller.error(error);
+        return;
+      }
+      if (chunk.done) {
+        controller.close();
+        stopCaching(true);
+        return;
+      }
+      if (isCaching) {
+        try {
+          await (await file).write(chunk.value);
+        } catch (error) {
+          console.error("Error caching document:", error);
+          stopCaching(false);
+        }
+      }
+      controller.enqueue(chunk.value);
+    },
+    // pdf.js often stops a whole download once it switches to ranges, which
+    // leaves the document to be cached in the background
+    async cancel(reason) {
+      const wasCaching = isCaching;
+      stopCaching(false);
+      await reader.cancel(reason);
+      if (wasCaching) fills.get(key)?.then(() => cacheDocument(url));
+    },
+  });
+}
+
+const GONE_STATUSES = [404, 410];
+
+const isGoneUpstream = (error: unknown) =>
+  error instanceof ProxyError &&
+  error.code === "upstream_status" &&
+  GONE_STATUSES.includes(
+    (error.details as { upstreamStatus?: number } | undefined)
+      ?.upstreamStatus ?? 0
+  );
+
+export interface CacheLookup {
+  entry?: CacheEntry;
+  // The revalidation response for a document that changed upstream
+  response?: http.IncomingMessage;
+}
+
+// Looks for the cached document for the URL, checking with the upstream
+// server when it is no longer fresh. The check is made with the browser's
+// request headers, so when the document changed its response can go to the
+// browser as it is. With neither, the document has to come from upstream.
+export async function lookupDocument(
+  url: URL,
+  requestHeaders: http.OutgoingHttpHeaders
+): Promise<CacheLookup> {
+  const entry = await findEntry(url.href);
+  if (!entry) return {};
+  if (Date.now() - Date.parse(entry.validatedAt) < FRESH_MS) return { entry };
+  if ((recheckAfter.get(entry.key) ?? 0) > Date.now()) return { entry };
+  recheckAfter.set(entry.key, Date.now() + RECHECK_MS);
+
+  const headers = { ...requestHeaders };
+  if (entry.etag) headers["If-None-Match"] = entry.etag;
+  if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+  try {
+    const response = await openUpstream(url, headers);
+    recheckAfter.delete(entry.key);
+    if (response.statusCode === 304) {
+      response.resume();
+      const validated = { ...entry, validatedAt: new Date().toISOString() };
+      await saveEntry(validated);
+      return { entry: validated };
+    }
+    await removeEntry(entry.key);
+    return { response };
+  } catch (error) {
+    // A document that is gone upstream is gone from the cache too, but one
+    // that can't be checked right now, such as during an outage, is still
+    // served
+    if (isGoneUpstream(error)) {
+      await removeEntry(entry.key);
+      throw error;
+    }
+    recheckAfter.set(entry.key, Date.now() + RECHECK_MS);
+    console.warn(
+      "Serving a cached document that could not be revalidated:",
+      error
+    );
+    return { entry };
+  }
+}
+
+export async function touchEntry(entry: CacheEntry) {
+  const entries = await loadIndex();
+  // An entry evicted meanwhile stays evicted
+  const current = entries.get(entry.key);
+  if (!current) return;
+  const now = Date.now();
+  const touched = { ...current, lastAccessedAt: new Date(now).toISOString() };
+  entries.set(entry.key, touched);
+  if (now - (accessWrittenAt.get(entry.key) ?? 0) < ACCESS_WRITE_MS) return;
+  accessWrittenAt.set(entry.key, now);
+  await saveEntry(touched);
+}
+
+// Reads a single "bytes=" range against a file of the given size; null
+// means the whole file
+export const byteRange = (
+  header: string | null,
+  size: number
+): ByteRange | null => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const [start, end] = match[1]
+    ? [Number(match[1]), match[2] ? Number(match[2]) : size - 1]
+    : [Math.max(0, size - Number(match[2])), size - 1];
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end: Math.min(end, size - 1) };
+};
+
+export const readCachedBody = (
+  entry: CacheEntry,
+  range?: { start: number; end: number }
+) =>
+  Readable.toWeb(
+    createReadStream(bodyFile(entry.key), range)
+  ) as ReadableStream<Uint8Array>;
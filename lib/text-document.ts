@@ -0,0 +1,117 @@
+import hljs from "highlight.js/lib/common";
+import { PageSize } from "@/lib/measurement";
+
+// A run of text sharing the same highlight.js classes
+export interface TextSegment {
+  text: string;
+  className?: string;
+}
+
+export type TextLine = TextSegment[];
+
+// Text is laid out on letter-sized pages in a monospace font
+export const TEXT_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+export const TEXT_PAGE_PADDING = 36;
+export const TEXT_FONT_SIZE = 11;
+export const TEXT_LINE_HEIGHT = 15;
+// Longer lines wrap onto the next line
+export const TEXT_COLUMNS = 80;
+const LINES_PER_PAGE = Math.floor(
+  (TEXT_PAGE_SIZE.height - TEXT_PAGE_PADDING * 2) / TEXT_LINE_HEIGHT
+);
+
+const LANGUAGES_BY_MIME_TYPE: Record<string, string> = {
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/html": "xml",
+  "text/xml": "xml",
+  "application/xml": "xml",
+  "text/css": "css",
+  "text/javascript": "javascript",
+  "application/javascript": "javascript",
+  "application/json": "json",
+  "text/x-python": "python",
+  "application/x-sh": "bash",
+};
+
+// highlight.js language for a file, or null for plain text. Extensions work
+// directly as highlight.js aliases, such as "ts" or "md".
+export const textLanguage = (extension: string, mimeType?: string) => {
+  if (extension && hljs.getLanguage(extension)) return extension;
+  const language = mimeType && LANGUAGES_BY_MIME_TYPE[mimeType];
+  return language || null;
+};
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#x27;": "'",
+};
+
+const decodeEntities = (html: string) =>
+  html.replace(/&(?:amp|lt|gt|quot|#x27);/g, (entity) => ENTITIES[entity]);
+
+// Splits highlight.js output into lines, carrying classes of spans that are
+// still open across line breaks, such as block comments
+const highlightedLines = (text: string, language: string): TextLine[] => {
+  const html = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+  const lines: TextLine[] = [[]];
+  const classes: string[] = [];
+  const token = /<span class="([^"]*)">|<\/span>|([^<]+)/g;
+  for (const match of Array.from(html.matchAll(token))) {
+    if (match[1] !== undefined) {
+      classes.push(match[1]);
+    } else if (match[2] === undefined) {
+      classes.pop();
+    } else {
+      const className = classes.join(" ") || undefined;
+      decodeEntities(match[2])
+        .split("\n")
+        .forEach((part, index) => {
+          if (index > 0) lines.push([]);
+          if (part) lines[lines.length - 1].push({ text: part, className });
+        });
+    }
+  }
+  return lines;
+};
+
+const wrapLine = (line: TextLine, columns: number): TextLine[] => {
+  const wrapped: TextLine[] = [[]];
+  let length = 0;
+  for (const segment of line) {
+    let rest = segment.text;
+    while (rest) {
+      if (length === columns) {
+        wrapped.push([]);
+        length = 0;
+      }
+      const part = rest.slice(0, columns - length);
+      wrapped[wrapped.length - 1].push({ ...segment, text: part });
+      length += part.length;
+      rest = rest.slice(part.length);
+    }
+  }
+  return wrapped;
+};
+
+// Lines of each page, highlighted when the language is known
+export const paginateText = (
+  text: string,
+  language: string | null
+): TextLine[][] => {
+  // Tabs would throw off the column count
+  const source = text.replace(/\r\n?/g, "\n").replace(/\t/g, "    ");
+  const lines = language
+    ? highlightedLines(source, language)
+    : source.split("\n").map((line) => (line ? [{ text: line }] : []));
+  const wrapped = lines.flatMap((line) => wrapLine(line, TEXT_COLUMNS));
+
+  const pages: TextLine[][] = [];
+  for (let start = 0; start < wrapped.length; start += LINES_PER_PAGE) {
+    pages.push(wrapped.slice(start, start + LINES_PER_PAGE));
+  }
+  return pages.length > 0 ? pages : [[]];
+};
@@ -0,0 +1,66 @@
+import { PageSize } from "@/lib/measurement";
+import { PageRect } from "@/lib/pdf-search";
+
+// Edge length of a tile canvas in device pixels
+export const TILE_SIZE = 1024;
+
+export interface PageTile {
+  key: string;
+  // Placement on the page, in points
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Canvas size and offset into the full-resolution page, in device pixels
+  pixelWidth: number;
+  pixelHeight: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Tiles of a page drawn at `resolution` device pixels per point that overlap
+// the visible rectangle grown by `margin` points on every side
+export function visibleTiles(
+  pageSize: PageSize,
+  resolution: number,
+  visible: PageRect,
+  margin = 0
+): PageTile[] {
+  const pageWidth = Math.ceil(pageSize.width * resolution);
+  const pageHeight = Math.ceil(pageSize.height * resolution);
+  const toTile = (points: number) =>
+    Math.floor((points * resolution) / TILE_SIZE);
+
+  const firstColumn = Math.max(0, toTile(visible.x - margin));
+  const lastColumn = Math.min(
+    Math.ceil(pageWidth / TILE_SIZE) - 1,
+    toTile(visible.x + visible.width + margin)
+  );
+  const firstRow = Math.max(0, toTile(visible.y - margin));
+  const lastRow = Math.min(
+    Math.ceil(pageHeight / TILE_SIZE) - 1,
+    toTile(visible.y + visible.height + margin)
+  );
+
+  const tiles: PageTile[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const offsetX = column * TILE_SIZE;
+      const offsetY = row * TILE_SIZE;
+      const pixelWidth = Math.min(TILE_SIZE, pageWidth - offsetX);
+      const pixelHeight = Math.min(TILE_SIZE, pageHeight - offsetY);
+      tiles.push({
+        key: `${resolution}:${column}:${row}`,
+        x: offsetX / resolution,
+        y: offsetY / resolution,
+        width: pixelWidth / resolution,
+        height: pixelHeight / resolution,
+        pixelWidth,
+        pixelHeight,
+        offsetX,
+        offsetY,
+      });
+    }
+  }
+  return tiles;
+}
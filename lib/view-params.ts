@@ -0,0 +1,95 @@
+import { PagePoint } from "@/lib/measurement";
+import { FitMode } from "@/lib/zoom";
+
+// A spot in a document, as carried by deep links
+export interface DocumentView {
+  pageNumber: number;
+  // Percent of actual size, or a fit preset
+  zoom?: number | FitMode;
+  // Point shown at the top-left of the viewer, in PDF user space: points
+  // from the bottom-left corner of the page's box. A missing coordinate
+  // leaves that axis as it is.
+  position?: Partial<PagePoint>;
+  search?: string;
+}
+
+// The open parameters' view values for the fit presets; the FitB variants
+// fit the content box, which is the closest the viewer gets to the page
+const FIT_VIEWS: Record<string, FitMode> = {
+  Fit: "page",
+  FitB: "page",
+  FitH: "width",
+  FitBH: "width",
+};
+
+const coordinate = (value: string | undefined) => {
+  const number = parseFloat(value ?? "");
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const readZoom = (value: string): Pick<DocumentView, "zoom" | "position"> => {
+  const [scale, left, top] = value.split(",");
+  const percent = parseFloat(scale);
+  if (!(percent > 0)) return {};
+  const x = coordinate(left);
+  const y = coordinate(top);
+  return {
+    zoom: percent,
+    ...(x !== undefined && y !== undefined && { position: { x, y } }),
+  };
+};
+
+// FitH and FitBH can give the top of the view
+const readView = (value: string): Pick<DocumentView, "zoom" | "position"> => {
+  const [name, top] = value.split(",");
+  const zoom = FIT_VIEWS[name];
+  if (!zoom) return {};
+  const y = zoom === "width" ? coordinate(top) : undefined;
+  return { zoom, ...(y !== undefined && { position: { y } }) };
+};
+
+// Reads PDF open parameters such as "#page=3&zoom=150,100,200&search=term"
+// or "#page=2&view=FitH,500" from a URL hash or query string; null when they
+// name no view. A zoom wins over a view when a link has both.
+export const parseViewParams = (value: string): DocumentView | null => {
+  const params = new URLSearchParams(value.replace(/^[#?]/, ""));
+  const pageNumber = parseInt(params.get("page") ?? "", 10);
+  const zoomed = readZoom(params.get("zoom") ?? "");
+  const { zoom, position } =
+    zoomed.zoom !== undefined ? zoomed : readView(params.get("view") ?? "");
+  const search = params.get("search")?.trim();
+  if (!(pageNumber > 0) && zoom === undefined && !search) return null;
+
+  return {
+    pageNumber: pageNumber > 0 ? pageNumber : 1,
+    ...(zoom !== undefined && { zoom }),
+    ...(position && { position }),
+    ...(search && { search }),
+  };
+};
+
+const formatZoom = (
+  zoom: number | FitMode,
+  position: Partial<PagePoint> | undefined
+) => {
+  if (zoom === "page") return "view=Fit";
+  if (zoom === "width") {
+    return position?.y !== undefined
+      ? `view=FitH,${Math.round(position.y)}`
+      : "view=FitH";
+  }
+  return position?.x !== undefined && position.y !== undefined
+    ? `zoom=${Math.round(zoom)},${Math.round(position.x)},${Math.round(
+        position.y
+      )}`
+    : `zoom=${Math.round(zoom)}`;
+};
+
+export const formatViewParams = (view: DocumentView) => {
+  const params = [`page=${view.pageNumber}`];
+  if (view.zoom !== undefined) {
+    params.push(formatZoom(view.zoom, view.position));
+  }
+  if (view.search) params.push(`search=${encodeURIComponent(view.search)}`);
+  return params.join("&");
+};
@@ -0,0 +1,78 @@
+import type { ReactNode } from "react";
+import { DocumentAnnotations } from "@/lib/annotations";
+import { ShortcutAction } from "@/lib/keyboard-shortcuts";
+import { SearchOptions } from "@/lib/pdf-search";
+import type { PDFDocumentProxy } from "@/lib/pdf-types";
+import { FitMode } from "@/lib/zoom";
+
+// What dragging on the document does
+export type PointerMode = "drag" | "select" | "ruler" | "comment";
+
+// Percent of actual size, or a fit preset, like DocumentView's zoom
+export type ZoomValue = number | FitMode;
+
+export interface DocumentLoadInfo {
+  numPages: number;
+  // Null for files shown by a renderer rather than pdf.js
+  pdfDocument: PDFDocumentProxy | null;
+}
+
+// Methods a host page can call through a ref
+export interface DocumentViewerHandle {
+  goToPage: (pageNumber: number) => void;
+  zoomTo: (zoom: ZoomValue) => void;
+  fitPage: () => void;
+  // Opens the search bar with the query and jumps to the first match
+  search: (query: string, options?: Partial<SearchOptions>) => void;
+  getAnnotations: () => DocumentAnnotations;
+  // Whether comments or measurements were changed since they were saved
+  hasUnsavedChanges: () => boolean;
+  // Backs out of an unfinished measurement or an open comment thread, as
+  // Escape does; false when there was nothing to back out of
+  cancelInteraction: () => boolean;
+}
+
+// Parts of the toolbar that can be hidden. Hiding a feature turns off its
+// keyboard shortcuts too; the page keys always work.
+export type ToolbarFeature =
+  | "thumbnails"
+  | "layout"
+  | "rotate"
+  | "pageNavigation"
+  | "zoom"
+  | "pointerModes"
+  | "measure"
+  | "comment"
+  | "save"
+  | "download"
+  | "print"
+  | "search"
+  | "shortcuts"
+  | "goTo";
+
+export interface ToolbarOptions {
+  hidden?: ToolbarFeature[];
+  // Host controls placed at the start of the toolbar, and before the
+  // buttons at its end
+  start?: ReactNode;
+  end?: ReactNode;
+}
+
+// Features a shortcut belongs to; it only works while all of them are shown
+export const SHORTCUT_FEATURES: Partial<
+  Record<ShortcutAction, ToolbarFeature[]>
+> = {
+  zoomIn: ["zoom"],
+  zoomOut: ["zoom"],
+  resetZoom: ["zoom"],
+  dragMode: ["pointerModes"],
+  selectMode: ["pointerModes"],
+  rulerMode: ["pointerModes", "measure"],
+  commentMode: ["pointerModes", "comment"],
+  toggleShortcuts: ["shortcuts"],
+};
+
+export const isFeatureShown = (
+  options: ToolbarOptions | undefined,
+  feature: ToolbarFeature
+) => !options?.hidden?.includes(feature);
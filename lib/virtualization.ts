@@ -0,0 +1,47 @@
+// Helpers for rendering only the items of a long list that are on screen
+
+export interface ItemLayout {
+  // Start offset of each item along the scroll axis
+  offsets: number[];
+  sizes: number[];
+  totalSize: number;
+}
+
+export const layoutItems = (sizes: number[], gap = 0): ItemLayout => {
+  const offsets: number[] = [];
+  let position = 0;
+  sizes.forEach((size, i) => {
+    offsets.push(position);
+    position += size + (i < sizes.length - 1 ? gap : 0);
+  });
+  return { offsets, sizes, totalSize: position };
+};
+
+// Index of the last item starting at or before the given position
+const findItemAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+// Inclusive range of item indexes overlapping [start, end], plus overscan
+export const visibleRange = (
+  layout: ItemLayout,
+  start: number,
+  end: number,
+  overscan = 0
+): [number, number] => {
+  const count = layout.offsets.length;
+  if (count === 0) return [0, -1];
+  const first = findItemAt(layout.offsets, start);
+  const last = findItemAt(layout.offsets, end);
+  return [Math.max(0, first - overscan), Math.min(count - 1, last + overscan)];
+};
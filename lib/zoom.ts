@@ -0,0 +1,31 @@
+// Zoom levels shown to the reader. 100% is the printed size of the page:
+// PDF points are 1/72 inch and CSS pixels 1/96 inch.
+export const ACTUAL_SIZE_SCALE = 96 / 72;
+
+// Fit modes are recomputed whenever the viewer resizes; any other zoom stays
+export type FitMode = "page" | "width";
+
+export const FIT_MODE_LABELS: Record<FitMode, string> = {
+  page: "Fit page",
+  width: "Fit width",
+};
+
+export const ZOOM_PRESETS = [50, 75, 100, 125, 150, 200, 300];
+
+// Scale factor of one zoom in or out step
+export const ZOOM_STEP = 1.1;
+
+export const scaleToPercent = (scale: number) =>
+  Math.round((scale / ACTUAL_SIZE_SCALE) * 100);
+
+export const percentToScale = (percent: number) =>
+  (percent / 100) * ACTUAL_SIZE_SCALE;
+
+// Accepts "150", "150%" or "1.5x"; null when the text isn't a zoom level
+export const parseZoomInput = (text: string): number | null => {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(%|x)?$/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  const percent = match[2]?.toLowerCase() === "x" ? value * 100 : value;
+  return percent > 0 ? percent : null;
+};